@@ -6,7 +6,21 @@ import path from 'path';
 import fs from 'fs';
 import os from 'os';
 import Database from 'better-sqlite3';
+import { serializeTheme, getSerializer, getExportFileName, listSerializers, generatedThemeName, terminatorProfileName, DELTA_FEATURE } from '../shared/formats/serializers';
+import type { SerializeOptions } from '../shared/formats/serializers';
+import { getManagedBlock, hasManagedBlock, upsertManagedBlock } from '../shared/config/managed-block';
+import { getIniValue, setIniValues, upsertIniSubsection } from '../shared/config/ini';
+import { rowsToColors, rowsToSettings } from '../shared/db/theme-rows';
+import { hyperColorProperties } from '../shared/formats/hyper';
+import { toTabbyColorScheme } from '../shared/formats/tabby';
+import { toLazygitTheme } from '../shared/formats/lazygit';
+import { toOhMyPoshPalette } from '../shared/formats/prompts';
+import { VSCODE_COLOR_CUSTOMIZATIONS, toVscodeTerminalColors } from '../shared/formats/vscode';
+import { setJsoncValue } from '../shared/formats/jsonc';
 import yaml from 'yaml';
+import type { ThemeColors, ThemeFormat, ThemeSettings } from '../shared/types/theme';
+import { findTerminal, terminalNames } from './terminals';
+import type { Terminal } from './terminals';
 
 // OS detection
 type Platform = 'macos' | 'windows' | 'linux';
@@ -287,24 +301,24 @@ function initializeDatabase(): { success: boolean; message: string; themeCount?:
   };
 }
 
-// Supported terminals per platform
-type Terminal =
-  // macOS
-  | 'terminal' | 'iterm2' | 'warp'
-  // Windows
-  | 'windows-terminal' | 'powershell'
-  // Cross-platform
-  | 'alacritty' | 'kitty'
-  // Linux
-  | 'gnome-terminal' | 'konsole';
-
 // Terminals available per platform
 const platformTerminals: Record<Platform, Terminal[]> = {
-  macos: ['terminal', 'iterm2', 'warp', 'alacritty', 'kitty'],
-  windows: ['windows-terminal', 'powershell', 'alacritty', 'kitty'],
-  linux: ['gnome-terminal', 'konsole', 'alacritty', 'kitty'],
+  macos: ['terminal', 'iterm2', 'warp', 'alacritty', 'kitty', 'wezterm', 'ghostty', 'hyper', 'tabby', 'vscode', 'tmux', 'zellij', 'screen', 'neovim', 'vim', 'helix'],
+  windows: ['windows-terminal', 'powershell', 'alacritty', 'kitty', 'wezterm', 'hyper', 'tabby', 'vscode', 'neovim', 'vim', 'helix'],
+  linux: ['gnome-terminal', 'konsole', 'xfce4-terminal', 'tilix', 'terminator', 'xterm', 'urxvt', 'foot', 'alacritty', 'kitty', 'wezterm', 'ghostty', 'hyper', 'tabby', 'vscode', 'tmux', 'zellij', 'screen', 'neovim', 'vim', 'helix'],
 };
 
+// CLI tools and prompts themed alongside the terminal with `apply --tools`, in
+// apply order (delta uses the bat theme as its syntax theme)
+type Tool =
+  | 'fzf' | 'bat' | 'delta' | 'lazygit' | 'btop' | 'ls-colors' | 'lsd'
+  // Prompts
+  | 'starship' | 'oh-my-posh' | 'p10k';
+
+const cliTools: Tool[] = ['fzf', 'bat', 'delta', 'lazygit', 'btop', 'ls-colors', 'lsd', 'starship', 'oh-my-posh', 'p10k'];
+
+type ApplyTarget = Terminal | Tool;
+
 // Detect which terminal is currently running
 function detectTerminal(): Terminal {
   const term = process.env.TERM_PROGRAM?.toLowerCase() || '';
@@ -314,6 +328,10 @@ function detectTerminal(): Terminal {
 
   // Windows detection
   if (currentPlatform === 'windows') {
+    if (term === 'vscode') return 'vscode';
+    if (term.includes('wezterm')) return 'wezterm';
+    if (term.includes('hyper')) return 'hyper';
+    if (term.includes('tabby')) return 'tabby';
     if (wtSession) return 'windows-terminal';
     if (psVersion) return 'powershell';
     if (term.includes('alacritty')) return 'alacritty';
@@ -323,37 +341,53 @@ function detectTerminal(): Terminal {
 
   // Linux detection
   if (currentPlatform === 'linux') {
+    // TERM_PROGRAM first: the other variables leak into terminals launched from GNOME Terminal or Konsole
+    if (term === 'vscode') return 'vscode';
+    if (term.includes('wezterm')) return 'wezterm';
+    if (term.includes('ghostty')) return 'ghostty';
+    if (term.includes('hyper')) return 'hyper';
+    if (term.includes('tabby')) return 'tabby';
     if (process.env.GNOME_TERMINAL_SCREEN) return 'gnome-terminal';
     if (process.env.KONSOLE_VERSION) return 'konsole';
+    if (process.env.TILIX_ID) return 'tilix';
+    if (process.env.TERMINATOR_UUID) return 'terminator';
+    // Older XFCE Terminal releases set COLORTERM to their own name
+    if (process.env.COLORTERM === 'xfce4-terminal') return 'xfce4-terminal';
+    if (process.env.XTERM_VERSION) return 'xterm';
+    if (process.env.TERM?.includes('rxvt')) return 'urxvt';
+    if (process.env.TERM?.startsWith('foot')) return 'foot';
     if (term.includes('alacritty')) return 'alacritty';
     if (process.env.KITTY_WINDOW_ID) return 'kitty';
+    if (process.env.XDG_CURRENT_DESKTOP?.toUpperCase().includes('XFCE')) return 'xfce4-terminal';
     return 'gnome-terminal'; // default on Linux
   }
 
   // macOS detection
+  if (term === 'vscode') return 'vscode';
   if (term.includes('iterm') || termId.includes('iterm')) return 'iterm2';
   if (term.includes('warp') || process.env.WARP_IS_LOCAL_SHELL_SESSION) return 'warp';
   if (term.includes('alacritty')) return 'alacritty';
   if (term.includes('kitty') || process.env.KITTY_WINDOW_ID) return 'kitty';
+  if (term.includes('wezterm')) return 'wezterm';
+  if (term.includes('ghostty')) return 'ghostty';
+  if (term.includes('hyper')) return 'hyper';
+  if (term.includes('tabby')) return 'tabby';
 
   return 'terminal'; // default on macOS
 }
 
-// Terminal display names
-const terminalNames: Record<Terminal, string> = {
-  // macOS
-  terminal: 'Terminal.app',
-  iterm2: 'iTerm2',
-  warp: 'Warp',
-  // Windows
-  'windows-terminal': 'Windows Terminal',
-  powershell: 'PowerShell',
-  // Cross-platform
-  alacritty: 'Alacritty',
-  kitty: 'Kitty',
-  // Linux
-  'gnome-terminal': 'GNOME Terminal',
-  konsole: 'Konsole',
+const toolNames: Record<Tool, string> = {
+  fzf: 'fzf',
+  bat: 'bat',
+  delta: 'delta',
+  lazygit: 'lazygit',
+  btop: 'btop',
+  'ls-colors': 'ls and eza (LS_COLORS)',
+  lsd: 'lsd',
+  // Prompts
+  starship: 'Starship',
+  'oh-my-posh': 'oh-my-posh',
+  p10k: 'Powerlevel10k',
 };
 
 // Initialize database connection
@@ -378,34 +412,6 @@ interface ThemeSummary {
   ansiColors: string[]; // All 16 ANSI colors
 }
 
-// Full color map for installation
-interface ThemeColors {
-  background: string;
-  foreground: string;
-  cursor: string;
-  cursorText: string;
-  selection: string;
-  selectionText: string;
-  ansi: {
-    black: string;
-    red: string;
-    green: string;
-    yellow: string;
-    blue: string;
-    magenta: string;
-    cyan: string;
-    white: string;
-    brightBlack: string;
-    brightRed: string;
-    brightGreen: string;
-    brightYellow: string;
-    brightBlue: string;
-    brightMagenta: string;
-    brightCyan: string;
-    brightWhite: string;
-  };
-}
-
 // Get all themes
 function getThemes(db: Database.Database): ThemeSummary[] {
   const themes = db.prepare(`
@@ -490,34 +496,7 @@ function getFullThemeColors(db: Database.Database, themeId: string): ThemeColors
 
   if (colors.length === 0) return null;
 
-  const colorMap = new Map(colors.map(c => [c.color_key, c.hex_value]));
-
-  return {
-    background: colorMap.get('background') || '#000000',
-    foreground: colorMap.get('foreground') || '#ffffff',
-    cursor: colorMap.get('cursor') || '#ffffff',
-    cursorText: colorMap.get('cursorText') || '#000000',
-    selection: colorMap.get('selection') || '#444444',
-    selectionText: colorMap.get('selectionText') || '#ffffff',
-    ansi: {
-      black: colorMap.get('ansi_black') || '#000000',
-      red: colorMap.get('ansi_red') || '#ff0000',
-      green: colorMap.get('ansi_green') || '#00ff00',
-      yellow: colorMap.get('ansi_yellow') || '#ffff00',
-      blue: colorMap.get('ansi_blue') || '#0000ff',
-      magenta: colorMap.get('ansi_magenta') || '#ff00ff',
-      cyan: colorMap.get('ansi_cyan') || '#00ffff',
-      white: colorMap.get('ansi_white') || '#ffffff',
-      brightBlack: colorMap.get('ansi_brightBlack') || '#666666',
-      brightRed: colorMap.get('ansi_brightRed') || '#ff6666',
-      brightGreen: colorMap.get('ansi_brightGreen') || '#66ff66',
-      brightYellow: colorMap.get('ansi_brightYellow') || '#ffff66',
-      brightBlue: colorMap.get('ansi_brightBlue') || '#6666ff',
-      brightMagenta: colorMap.get('ansi_brightMagenta') || '#ff66ff',
-      brightCyan: colorMap.get('ansi_brightCyan') || '#66ffff',
-      brightWhite: colorMap.get('ansi_brightWhite') || '#ffffff',
-    },
-  };
+  return rowsToColors(colors);
 }
 
 // Toggle favorite status
@@ -591,28 +570,53 @@ function renderThemePreview(theme: ThemeSummary): void {
   console.log();
 }
 
-// Apply theme to Terminal.app
-function applyToTerminalApp(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
-  const hexToRGB = (hex: string) => {
-    const r = parseInt(hex.slice(1, 3), 16) * 257;
-    const g = parseInt(hex.slice(3, 5), 16) * 257;
-    const b = parseInt(hex.slice(5, 7), 16) * 257;
-    return `{${r}, ${g}, ${b}}`;
-  };
+// Apply theme to Terminal.app by importing a generated profile
+function applyToTerminalApp(
+  colors: ThemeColors,
+  themeName: string,
+  settings: ThemeSettings,
+  sourceFormat?: ThemeFormat
+): { success: boolean; message: string } {
+  const profilesDir = path.join(path.dirname(dbPath), 'profiles');
+  const theme = { name: themeName, colors, settings, sourceFormat };
+  const profilePath = path.join(profilesDir, getExportFileName(theme, 'terminal'));
+
+  try {
+    fs.mkdirSync(profilesDir, { recursive: true });
+    fs.writeFileSync(profilePath, serializeTheme(theme, 'terminal'));
+  } catch (err) {
+    return { success: false, message: `Failed to write ${profilePath}: ${err}` };
+  }
 
   const escapedName = themeName.replace(/"/g, '\\"');
 
-  const appleScript = `
+  // Delete an earlier import first, or the wait below would find the stale copy.
+  // Terminal.app won't delete a settings set that is in use, so move off it first.
+  const removeScript = `
     tell application "Terminal"
-      if not (exists settings set "${escapedName}") then
-        make new settings set with properties {name:"${escapedName}"}
+      if exists settings set "${escapedName}" then
+        set fallbackSettings to first settings set whose name is not "${escapedName}"
+        if name of default settings is "${escapedName}" then set default settings to fallbackSettings
+        if name of startup settings is "${escapedName}" then set startup settings to fallbackSettings
+        repeat with w in windows
+          repeat with t in tabs of w
+            if name of current settings of t is "${escapedName}" then set current settings of t to fallbackSettings
+          end repeat
+        end repeat
+        delete settings set "${escapedName}"
       end if
+    end tell
+  `;
 
-      set targetSettings to settings set "${escapedName}"
-      set background color of targetSettings to ${hexToRGB(colors.background)}
-      set normal text color of targetSettings to ${hexToRGB(colors.foreground)}
-      set cursor color of targetSettings to ${hexToRGB(colors.cursor)}
+  // Opening a .terminal file imports it; wait for the import before selecting it
+  const appleScript = `
+    tell application "Terminal"
+      repeat 20 times
+        if exists settings set "${escapedName}" then exit repeat
+        delay 0.25
+      end repeat
 
+      set targetSettings to settings set "${escapedName}"
       set default settings to targetSettings
       set startup settings to targetSettings
 
@@ -627,10 +631,12 @@ function applyToTerminalApp(colors: ThemeColors, themeName: string): { success:
   `;
 
   try {
+    execSync(`osascript -e '${removeScript.replace(/'/g, "'\"'\"'")}'`, { stdio: 'pipe' });
+    execSync(`open "${profilePath}"`, { stdio: 'pipe' });
     execSync(`osascript -e '${appleScript.replace(/'/g, "'\"'\"'")}'`, { stdio: 'pipe' });
     return { success: true, message: 'Theme applied and set as default!' };
   } catch {
-    return { success: false, message: 'Theme saved to profiles. Select in Terminal → Settings → Profiles.' };
+    return { success: false, message: `Profile saved to ${profilePath}. Open it to import into Terminal.app.` };
   }
 }
 
@@ -642,48 +648,11 @@ function applyToIterm2(colors: ThemeColors, themeName: string, themeId: string):
     fs.mkdirSync(dynamicProfilesDir, { recursive: true });
   }
 
-  const hexToItermColor = (hex: string) => ({
-    'Red Component': parseInt(hex.slice(1, 3), 16) / 255,
-    'Green Component': parseInt(hex.slice(3, 5), 16) / 255,
-    'Blue Component': parseInt(hex.slice(5, 7), 16) / 255,
-    'Alpha Component': 1,
-    'Color Space': 'sRGB',
-  });
-
-  const profile = {
-    Profiles: [{
-      Name: themeName,
-      Guid: themeId,
-      'Background Color': hexToItermColor(colors.background),
-      'Foreground Color': hexToItermColor(colors.foreground),
-      'Cursor Color': hexToItermColor(colors.cursor),
-      'Cursor Text Color': hexToItermColor(colors.cursorText),
-      'Selection Color': hexToItermColor(colors.selection),
-      'Selected Text Color': hexToItermColor(colors.selectionText),
-      'Ansi 0 Color': hexToItermColor(colors.ansi.black),
-      'Ansi 1 Color': hexToItermColor(colors.ansi.red),
-      'Ansi 2 Color': hexToItermColor(colors.ansi.green),
-      'Ansi 3 Color': hexToItermColor(colors.ansi.yellow),
-      'Ansi 4 Color': hexToItermColor(colors.ansi.blue),
-      'Ansi 5 Color': hexToItermColor(colors.ansi.magenta),
-      'Ansi 6 Color': hexToItermColor(colors.ansi.cyan),
-      'Ansi 7 Color': hexToItermColor(colors.ansi.white),
-      'Ansi 8 Color': hexToItermColor(colors.ansi.brightBlack),
-      'Ansi 9 Color': hexToItermColor(colors.ansi.brightRed),
-      'Ansi 10 Color': hexToItermColor(colors.ansi.brightGreen),
-      'Ansi 11 Color': hexToItermColor(colors.ansi.brightYellow),
-      'Ansi 12 Color': hexToItermColor(colors.ansi.brightBlue),
-      'Ansi 13 Color': hexToItermColor(colors.ansi.brightMagenta),
-      'Ansi 14 Color': hexToItermColor(colors.ansi.brightCyan),
-      'Ansi 15 Color': hexToItermColor(colors.ansi.brightWhite),
-    }],
-  };
-
   const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
   const profilePath = path.join(dynamicProfilesDir, `shellshade-${slugName}.json`);
 
   try {
-    fs.writeFileSync(profilePath, JSON.stringify(profile, null, 2));
+    fs.writeFileSync(profilePath, serializeTheme({ id: themeId, name: themeName, colors }, 'iterm2-json'));
 
     // Try to apply via AppleScript
     const appleScript = `
@@ -710,48 +679,18 @@ function applyToIterm2(colors: ThemeColors, themeName: string, themeId: string):
 }
 
 // Apply theme to Warp
-function applyToWarp(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+function applyToWarp(colors: ThemeColors, themeName: string, settings: ThemeSettings): { success: boolean; message: string } {
   const warpThemesDir = path.join(os.homedir(), '.warp/themes');
 
   if (!fs.existsSync(warpThemesDir)) {
     fs.mkdirSync(warpThemesDir, { recursive: true });
   }
 
-  const warpTheme = {
-    name: themeName,
-    accent: colors.ansi.blue,
-    background: colors.background,
-    foreground: colors.foreground,
-    details: 'darker',
-    terminal_colors: {
-      normal: {
-        black: colors.ansi.black,
-        red: colors.ansi.red,
-        green: colors.ansi.green,
-        yellow: colors.ansi.yellow,
-        blue: colors.ansi.blue,
-        magenta: colors.ansi.magenta,
-        cyan: colors.ansi.cyan,
-        white: colors.ansi.white,
-      },
-      bright: {
-        black: colors.ansi.brightBlack,
-        red: colors.ansi.brightRed,
-        green: colors.ansi.brightGreen,
-        yellow: colors.ansi.brightYellow,
-        blue: colors.ansi.brightBlue,
-        magenta: colors.ansi.brightMagenta,
-        cyan: colors.ansi.brightCyan,
-        white: colors.ansi.brightWhite,
-      },
-    },
-  };
-
   const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
   const themePath = path.join(warpThemesDir, `${slugName}.yaml`);
 
   try {
-    fs.writeFileSync(themePath, yaml.stringify(warpTheme));
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors, settings }, 'warp'));
     return { success: true, message: `Theme saved to ${themePath}\nSelect in Warp → Settings → Appearance → Themes.` };
   } catch {
     return { success: false, message: 'Failed to write theme file.' };
@@ -766,80 +705,11 @@ function applyToAlacritty(colors: ThemeColors, themeName: string): { success: bo
     fs.mkdirSync(alacrittyDir, { recursive: true });
   }
 
-  const alacrittyTheme = {
-    colors: {
-      primary: {
-        background: colors.background,
-        foreground: colors.foreground,
-      },
-      cursor: {
-        text: colors.cursorText,
-        cursor: colors.cursor,
-      },
-      selection: {
-        text: colors.selectionText,
-        background: colors.selection,
-      },
-      normal: {
-        black: colors.ansi.black,
-        red: colors.ansi.red,
-        green: colors.ansi.green,
-        yellow: colors.ansi.yellow,
-        blue: colors.ansi.blue,
-        magenta: colors.ansi.magenta,
-        cyan: colors.ansi.cyan,
-        white: colors.ansi.white,
-      },
-      bright: {
-        black: colors.ansi.brightBlack,
-        red: colors.ansi.brightRed,
-        green: colors.ansi.brightGreen,
-        yellow: colors.ansi.brightYellow,
-        blue: colors.ansi.brightBlue,
-        magenta: colors.ansi.brightMagenta,
-        cyan: colors.ansi.brightCyan,
-        white: colors.ansi.brightWhite,
-      },
-    },
-  };
-
   const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
   const themePath = path.join(alacrittyDir, `${slugName}.toml`);
 
   // Write as TOML format
-  const tomlContent = `# ${themeName} - Generated by ShellShade
-[colors.primary]
-background = "${colors.background}"
-foreground = "${colors.foreground}"
-
-[colors.cursor]
-text = "${colors.cursorText}"
-cursor = "${colors.cursor}"
-
-[colors.selection]
-text = "${colors.selectionText}"
-background = "${colors.selection}"
-
-[colors.normal]
-black = "${colors.ansi.black}"
-red = "${colors.ansi.red}"
-green = "${colors.ansi.green}"
-yellow = "${colors.ansi.yellow}"
-blue = "${colors.ansi.blue}"
-magenta = "${colors.ansi.magenta}"
-cyan = "${colors.ansi.cyan}"
-white = "${colors.ansi.white}"
-
-[colors.bright]
-black = "${colors.ansi.brightBlack}"
-red = "${colors.ansi.brightRed}"
-green = "${colors.ansi.brightGreen}"
-yellow = "${colors.ansi.brightYellow}"
-blue = "${colors.ansi.brightBlue}"
-magenta = "${colors.ansi.brightMagenta}"
-cyan = "${colors.ansi.brightCyan}"
-white = "${colors.ansi.brightWhite}"
-`;
+  const tomlContent = serializeTheme({ name: themeName, colors }, 'alacritty');
 
   try {
     fs.writeFileSync(themePath, tomlContent);
@@ -857,35 +727,7 @@ function applyToKitty(colors: ThemeColors, themeName: string): { success: boolea
     fs.mkdirSync(kittyDir, { recursive: true });
   }
 
-  const kittyTheme = `# ${themeName} - Generated by ShellShade
-
-foreground ${colors.foreground}
-background ${colors.background}
-cursor ${colors.cursor}
-cursor_text_color ${colors.cursorText}
-selection_foreground ${colors.selectionText}
-selection_background ${colors.selection}
-
-# Normal colors
-color0 ${colors.ansi.black}
-color1 ${colors.ansi.red}
-color2 ${colors.ansi.green}
-color3 ${colors.ansi.yellow}
-color4 ${colors.ansi.blue}
-color5 ${colors.ansi.magenta}
-color6 ${colors.ansi.cyan}
-color7 ${colors.ansi.white}
-
-# Bright colors
-color8 ${colors.ansi.brightBlack}
-color9 ${colors.ansi.brightRed}
-color10 ${colors.ansi.brightGreen}
-color11 ${colors.ansi.brightYellow}
-color12 ${colors.ansi.brightBlue}
-color13 ${colors.ansi.brightMagenta}
-color14 ${colors.ansi.brightCyan}
-color15 ${colors.ansi.brightWhite}
-`;
+  const kittyTheme = serializeTheme({ name: themeName, colors }, 'kitty');
 
   const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
   const themePath = path.join(kittyDir, `${slugName}.conf`);
@@ -898,6 +740,240 @@ color15 ${colors.ansi.brightWhite}
   }
 }
 
+// Apply theme to WezTerm: a scheme in colors/ plus a Lua module that selects it
+function applyToWezterm(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const weztermDir = path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'wezterm');
+  const colorsDir = path.join(weztermDir, 'colors');
+  const modulePath = path.join(weztermDir, 'shellshade.lua');
+
+  const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  const schemePath = path.join(colorsDir, `${slugName}.toml`);
+
+  // WezTerm picks the scheme up by its [metadata] name
+  const luaName = `"${themeName.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const block = `M.color_scheme = ${luaName}`;
+
+  try {
+    fs.mkdirSync(colorsDir, { recursive: true });
+    fs.writeFileSync(schemePath, serializeTheme({ name: themeName, colors }, 'wezterm'));
+
+    const existing = fs.existsSync(modulePath) ? fs.readFileSync(modulePath, 'utf-8') : '';
+    const module = existing
+      ? upsertManagedBlock(existing, block, '--')
+      : `-- Generated by ShellShade. In wezterm.lua:
+--   config.color_scheme = require('shellshade').color_scheme
+local M = {}
+
+${upsertManagedBlock('', block, '--')}
+return M
+`;
+    fs.writeFileSync(modulePath, module);
+  } catch (err) {
+    return { success: false, message: `Failed to write WezTerm files: ${err}` };
+  }
+
+  return {
+    success: true,
+    message: `Theme saved to ${schemePath}\nIn wezterm.lua: config.color_scheme = require('shellshade').color_scheme`
+  };
+}
+
+// Apply theme to Ghostty: a file in themes/ plus a managed `theme =` line in the config
+function applyToGhostty(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const ghosttyDir = path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'ghostty');
+  const themesDir = path.join(ghosttyDir, 'themes');
+
+  // Ghostty 1.2+ also reads config.ghostty; prefer it when the user has one
+  const newConfigPath = path.join(ghosttyDir, 'config.ghostty');
+  const configPath = fs.existsSync(newConfigPath) ? newConfigPath : path.join(ghosttyDir, 'config');
+
+  // Theme files have no extension; `theme =` refers to them by file name
+  const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  const themePath = path.join(themesDir, slugName);
+
+  try {
+    fs.mkdirSync(themesDir, { recursive: true });
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors }, 'ghostty'));
+
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    fs.writeFileSync(configPath, upsertManagedBlock(existing, `theme = ${slugName}`));
+  } catch (err) {
+    return { success: false, message: `Failed to write Ghostty files: ${err}` };
+  }
+
+  return {
+    success: true,
+    message: `Theme saved to ${themePath}\nReload Ghostty's config (Cmd/Ctrl+Shift+,) to see it.`
+  };
+}
+
+// Hyper reads ~/.hyper.js; Hyper 3+ keeps it in the app data directory instead
+function findHyperConfig(): string {
+  const legacyPath = path.join(os.homedir(), '.hyper.js');
+  const appDir = currentPlatform === 'macos'
+    ? path.join(os.homedir(), 'Library/Application Support/Hyper')
+    : currentPlatform === 'windows'
+      ? path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData/Roaming'), 'Hyper')
+      : path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'Hyper');
+  const appPath = path.join(appDir, '.hyper.js');
+  return !fs.existsSync(legacyPath) && fs.existsSync(appPath) ? appPath : legacyPath;
+}
+
+// Index of the brace closing the object literal opened at `start`, skipping strings and comments
+function findClosingBrace(source: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+    if (char === '"' || char === "'" || char === '`') {
+      for (i++; i < source.length && source[i] !== char; i++) {
+        if (source[i] === '\\') i++;
+      }
+    } else if (char === '/' && source[i + 1] === '/') {
+      i = source.indexOf('\n', i);
+      if (i === -1) return -1;
+    } else if (char === '/' && source[i + 1] === '*') {
+      i = source.indexOf('*/', i + 2) + 1;
+      if (i === 0) return -1;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Insert lines just before an object's closing brace, adding the comma the last property may lack
+function appendObjectProperties(source: string, close: number, lines: string): string {
+  const head = source.slice(0, close);
+  const closingIndent = head.match(/\n([^\S\n]*)$/)?.[1] ?? '';
+  const headLines = head.replace(/\s+$/, '').split('\n');
+
+  for (let i = headLines.length - 1; i >= 0; i--) {
+    const code = headLines[i].replace(/\s*\/\/[^'"`]*$/, '');
+    const trimmed = code.trim();
+    if (!trimmed || trimmed.startsWith('*') || trimmed.startsWith('/*')) continue;
+    if (!trimmed.endsWith(',') && !trimmed.endsWith('{')) {
+      headLines[i] = `${code},${headLines[i].slice(code.length)}`;
+    }
+    break;
+  }
+
+  return `${headLines.join('\n')}\n${lines}${closingIndent}${source.slice(close)}`;
+}
+
+// Apply theme to Hyper via a managed block at the end of the config object,
+// where it overrides any color properties set earlier
+function applyToHyper(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const configPath = findHyperConfig();
+  const properties = hyperColorProperties(colors, '    ');
+  const block = upsertManagedBlock('', properties, '//');
+
+  try {
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    let content: string;
+
+    if (!existing.trim()) {
+      content = `module.exports = {\n  config: {\n${block}  },\n  plugins: [],\n};\n`;
+    } else if (hasManagedBlock(existing, '//')) {
+      content = upsertManagedBlock(existing, properties, '//');
+    } else {
+      const open = existing.search(/\bconfig\s*:\s*\{/);
+      const close = open === -1 ? -1 : findClosingBrace(existing, existing.indexOf('{', open));
+      if (close === -1) {
+        return { success: false, message: `Could not find the config object in ${configPath}` };
+      }
+      content = appendObjectProperties(existing, close, block);
+    }
+
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, content);
+  } catch (err) {
+    return { success: false, message: `Failed to update ${configPath}: ${err}` };
+  }
+
+  return { success: true, message: `Theme '${themeName}' written to ${configPath}\nHyper reloads its config automatically.` };
+}
+
+// Tabby's config.yaml location per platform
+function getTabbyConfigPath(): string {
+  if (currentPlatform === 'macos') {
+    return path.join(os.homedir(), 'Library/Application Support/tabby/config.yaml');
+  }
+  if (currentPlatform === 'windows') {
+    return path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData/Roaming'), 'tabby/config.yaml');
+  }
+  return path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'tabby/config.yaml');
+}
+
+// Apply theme to Tabby by setting terminal.colorScheme, keeping the rest of config.yaml as written
+function applyToTabby(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const configPath = getTabbyConfigPath();
+
+  try {
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    const doc = yaml.parseDocument(existing);
+    if (doc.errors.length > 0) {
+      return { success: false, message: `Could not parse ${configPath}: ${doc.errors[0].message}` };
+    }
+
+    doc.setIn(['terminal', 'colorScheme'], doc.createNode(toTabbyColorScheme(themeName, colors)));
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, String(doc));
+  } catch (err) {
+    return { success: false, message: `Failed to update ${configPath}: ${err}` };
+  }
+
+  return { success: true, message: `Color scheme set in ${configPath}\nRestart Tabby to see it.` };
+}
+
+// VS Code editions, by the name of their user data directory
+const VSCODE_EDITIONS = [
+  { name: 'VS Code', dir: 'Code' },
+  { name: 'VS Code Insiders', dir: 'Code - Insiders' },
+  { name: 'VSCodium', dir: 'VSCodium' },
+];
+
+// User settings.json of each installed edition, or of VS Code itself when none is found
+function findVscodeSettings(): Array<{ name: string; settingsPath: string }> {
+  const baseDir = currentPlatform === 'macos'
+    ? path.join(os.homedir(), 'Library/Application Support')
+    : currentPlatform === 'windows'
+      ? process.env.APPDATA || path.join(os.homedir(), 'AppData/Roaming')
+      : process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+
+  const editions = VSCODE_EDITIONS.map(edition => ({
+    name: edition.name,
+    settingsPath: path.join(baseDir, edition.dir, 'User/settings.json'),
+  }));
+  const installed = editions.filter(edition => fs.existsSync(path.dirname(edition.settingsPath)));
+  return installed.length > 0 ? installed : editions.slice(0, 1);
+}
+
+// Apply theme to the VS Code integrated terminal through workbench.colorCustomizations,
+// optionally only for one workbench theme
+function applyToVscode(colors: ThemeColors, themeName: string, scope?: string): { success: boolean; message: string } {
+  const keyPath = [VSCODE_COLOR_CUSTOMIZATIONS, ...(scope ? [`[${scope}]`] : [])];
+  const updated: string[] = [];
+
+  for (const { name, settingsPath } of findVscodeSettings()) {
+    try {
+      let content = fs.existsSync(settingsPath) ? fs.readFileSync(settingsPath, 'utf-8') : '';
+      for (const [key, value] of Object.entries(toVscodeTerminalColors(colors))) {
+        content = setJsoncValue(content, [...keyPath, key], value);
+      }
+      fs.mkdirSync(path.dirname(settingsPath), { recursive: true });
+      fs.writeFileSync(settingsPath, content);
+      updated.push(name);
+    } catch (err) {
+      return { success: false, message: `Failed to update ${settingsPath}: ${err instanceof Error ? err.message : err}` };
+    }
+  }
+
+  const scopeNote = scope ? ` when the "${scope}" theme is active` : '';
+  return { success: true, message: `Theme '${themeName}' applied to the ${updated.join(', ')} terminal${scopeNote}.` };
+}
+
 // Apply theme to Windows Terminal
 function applyToWindowsTerminal(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
   // Windows Terminal settings location
@@ -1120,145 +1196,633 @@ function applyToKonsole(colors: ThemeColors, themeName: string): { success: bool
   }
 
   // Konsole uses .colorscheme files
-  const konsoleTheme = `[Background]
-Color=${hexToKonsoleRgb(colors.background)}
+  const konsoleTheme = serializeTheme({ name: themeName, colors }, 'konsole');
 
-[BackgroundFaint]
-Color=${hexToKonsoleRgb(colors.background)}
-
-[BackgroundIntense]
-Color=${hexToKonsoleRgb(colors.background)}
+  const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  const themePath = path.join(konsoleDir, `${slugName}.colorscheme`);
 
-[Color0]
-Color=${hexToKonsoleRgb(colors.ansi.black)}
+  try {
+    fs.writeFileSync(themePath, konsoleTheme);
+    return {
+      success: true,
+      message: `Theme saved to ${themePath}\nSelect in Konsole → Settings → Edit Current Profile → Appearance`
+    };
+  } catch {
+    return { success: false, message: 'Failed to write colorscheme file.' };
+  }
+}
 
-[Color0Faint]
-Color=${hexToKonsoleRgb(colors.ansi.black)}
+// XFCE Terminal color properties, as terminalrc keys
+const XFCE_TERMINAL_COLOR_KEYS = [
+  'ColorForeground', 'ColorBackground', 'ColorCursorUseDefault', 'ColorCursor', 'ColorCursorForeground',
+  'ColorSelectionUseDefault', 'ColorSelection', 'ColorSelectionBackground', 'ColorPalette',
+];
 
-[Color0Intense]
-Color=${hexToKonsoleRgb(colors.ansi.brightBlack)}
+// Apply theme to XFCE Terminal: a colorscheme file, plus the colors set in terminalrc
+// (up to 1.0) and xfconf (1.1+, which only reads terminalrc once to migrate it)
+function applyToXfceTerminal(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const dataDir = process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local/share');
+  const configDir = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  const terminalrcPath = path.join(configDir, 'xfce4/terminal/terminalrc');
 
-[Color1]
-Color=${hexToKonsoleRgb(colors.ansi.red)}
+  const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  const schemePath = path.join(dataDir, 'xfce4/terminal/colorschemes', `${slugName}.theme`);
+  const scheme = serializeTheme({ name: themeName, colors }, 'xfce4-terminal');
+
+  // The colorscheme and terminalrc share their color keys
+  const values: Record<string, string> = {};
+  for (const line of scheme.split('\n')) {
+    const eq = line.indexOf('=');
+    if (eq > 0 && XFCE_TERMINAL_COLOR_KEYS.includes(line.slice(0, eq))) {
+      values[line.slice(0, eq)] = line.slice(eq + 1);
+    }
+  }
 
-[Color1Faint]
-Color=${hexToKonsoleRgb(colors.ansi.red)}
+  try {
+    fs.mkdirSync(path.dirname(schemePath), { recursive: true });
+    fs.writeFileSync(schemePath, scheme);
 
-[Color1Intense]
-Color=${hexToKonsoleRgb(colors.ansi.brightRed)}
+    const existing = fs.existsSync(terminalrcPath) ? fs.readFileSync(terminalrcPath, 'utf-8') : '';
+    fs.mkdirSync(path.dirname(terminalrcPath), { recursive: true });
+    fs.writeFileSync(terminalrcPath, setIniValues(existing, 'Configuration', values));
+  } catch (err) {
+    return { success: false, message: `Failed to write XFCE Terminal files: ${err}` };
+  }
 
-[Color2]
-Color=${hexToKonsoleRgb(colors.ansi.green)}
+  // ColorCursorUseDefault -> /color-cursor-use-default
+  try {
+    for (const [key, value] of Object.entries(values)) {
+      const property = key.replace(/[A-Z]/g, (char, index) => `${index > 0 ? '-' : ''}${char.toLowerCase()}`);
+      const isFlag = value === 'TRUE' || value === 'FALSE';
+      execSync(
+        `xfconf-query -c xfce4-terminal -p /${property} -n -t ${isFlag ? 'bool' : 'string'} -s "${isFlag ? value.toLowerCase() : value}"`,
+        { stdio: 'pipe' }
+      );
+    }
+  } catch {
+    return {
+      success: true,
+      message: `Theme written to ${terminalrcPath} and ${schemePath}\nIf the colors don't change, pick it in Preferences → Colors → Presets`
+    };
+  }
 
-[Color2Faint]
-Color=${hexToKonsoleRgb(colors.ansi.green)}
+  return { success: true, message: 'Theme applied to XFCE Terminal!' };
+}
 
-[Color2Intense]
-Color=${hexToKonsoleRgb(colors.ansi.brightGreen)}
+// Apply theme to Tilix
+function applyToTilix(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const schemesDir = path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'tilix/schemes');
 
-[Color3]
-Color=${hexToKonsoleRgb(colors.ansi.yellow)}
+  const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  const schemePath = path.join(schemesDir, `${slugName}.json`);
 
-[Color3Faint]
-Color=${hexToKonsoleRgb(colors.ansi.yellow)}
+  try {
+    fs.mkdirSync(schemesDir, { recursive: true });
+    fs.writeFileSync(schemePath, serializeTheme({ name: themeName, colors }, 'tilix'));
+  } catch {
+    return { success: false, message: 'Failed to write Tilix scheme file.' };
+  }
 
-[Color3Intense]
-Color=${hexToKonsoleRgb(colors.ansi.brightYellow)}
+  return {
+    success: true,
+    message: `Theme saved to ${schemePath}\nSelect in Tilix → Preferences → Profiles → Color → Color scheme`
+  };
+}
 
-[Color4]
-Color=${hexToKonsoleRgb(colors.ansi.blue)}
+// Apply theme to Terminator as a profile in its config, replacing an earlier one of the same name
+function applyToTerminator(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const configPath = path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'terminator/config');
+  const profileName = terminatorProfileName({ name: themeName, colors });
 
-[Color4Faint]
-Color=${hexToKonsoleRgb(colors.ansi.blue)}
+  // The serialized profile, without the header comment and [profiles] line
+  const serialized = serializeTheme({ name: themeName, colors }, 'terminator');
+  const profile = serialized.slice(serialized.indexOf('[profiles]') + '[profiles]'.length).replace(/^\n/, '');
 
-[Color4Intense]
-Color=${hexToKonsoleRgb(colors.ansi.brightBlue)}
+  try {
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, upsertIniSubsection(existing, 'profiles', profileName, profile));
+  } catch (err) {
+    return { success: false, message: `Failed to update ${configPath}: ${err}` };
+  }
 
-[Color5]
-Color=${hexToKonsoleRgb(colors.ansi.magenta)}
+  return {
+    success: true,
+    message: `Profile "${profileName}" added to ${configPath}\nSelect it from the Terminator context menu → Profiles, or run: terminator -p "${profileName}"`
+  };
+}
 
-[Color5Faint]
-Color=${hexToKonsoleRgb(colors.ansi.magenta)}
+// Apply theme to xterm/urxvt via a managed block in ~/.Xresources
+function applyToXresources(colors: ThemeColors, themeName: string, terminal: 'xterm' | 'urxvt'): { success: boolean; message: string } {
+  const xresourcesPath = path.join(os.homedir(), '.Xresources');
 
-[Color5Intense]
-Color=${hexToKonsoleRgb(colors.ansi.brightMagenta)}
+  try {
+    const existing = fs.existsSync(xresourcesPath) ? fs.readFileSync(xresourcesPath, 'utf-8') : '';
+    const block = serializeTheme({ name: themeName, colors }, 'xresources');
+    fs.writeFileSync(xresourcesPath, upsertManagedBlock(existing, block, '!'));
+  } catch (err) {
+    return { success: false, message: `Failed to update ${xresourcesPath}: ${err}` };
+  }
 
-[Color6]
-Color=${hexToKonsoleRgb(colors.ansi.cyan)}
+  // Load the new resources into the running X server (not available on Wayland-only systems)
+  try {
+    execSync(`xrdb -merge "${xresourcesPath}"`, { stdio: 'pipe' });
+  } catch {
+    return {
+      success: true,
+      message: `Theme saved to ${xresourcesPath}\nRun: xrdb -merge ~/.Xresources, then open a new ${terminalNames[terminal]} window`
+    };
+  }
 
-[Color6Faint]
-Color=${hexToKonsoleRgb(colors.ansi.cyan)}
+  return { success: true, message: `Theme applied! Open a new ${terminalNames[terminal]} window to see it.` };
+}
 
-[Color6Intense]
-Color=${hexToKonsoleRgb(colors.ansi.brightCyan)}
+// Apply theme to foot: a [colors] include file plus a managed include= line in foot.ini
+function applyToFoot(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const footDir = path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'foot');
+  const configPath = path.join(footDir, 'foot.ini');
 
-[Color7]
-Color=${hexToKonsoleRgb(colors.ansi.white)}
+  const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  const themePath = path.join(footDir, 'themes', `${slugName}.ini`);
 
-[Color7Faint]
-Color=${hexToKonsoleRgb(colors.ansi.white)}
+  try {
+    fs.mkdirSync(path.dirname(themePath), { recursive: true });
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors }, 'foot'));
 
-[Color7Intense]
-Color=${hexToKonsoleRgb(colors.ansi.brightWhite)}
+    // include= belongs to the main section, so the block goes before the first [section]
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    fs.writeFileSync(configPath, upsertManagedBlock(existing, `include=${themePath}`, '#', 'prepend'));
+  } catch (err) {
+    return { success: false, message: `Failed to write foot files: ${err}` };
+  }
 
-[Foreground]
-Color=${hexToKonsoleRgb(colors.foreground)}
+  return { success: true, message: `Theme saved to ${themePath}\nOpen a new foot window to see it.` };
+}
 
-[ForegroundFaint]
-Color=${hexToKonsoleRgb(colors.foreground)}
+// Apply theme to tmux: styles in a file sourced from tmux.conf, reloaded into a running server
+function applyToTmux(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const tmuxDir = path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'tmux');
+  const themePath = path.join(tmuxDir, 'shellshade.conf');
 
-[ForegroundIntense]
-Color=${hexToKonsoleRgb(colors.foreground)}
+  // tmux 3.1+ also reads ~/.config/tmux/tmux.conf; keep to whichever the user has
+  const legacyConfigPath = path.join(os.homedir(), '.tmux.conf');
+  const xdgConfigPath = path.join(tmuxDir, 'tmux.conf');
+  const configPath = !fs.existsSync(legacyConfigPath) && fs.existsSync(xdgConfigPath) ? xdgConfigPath : legacyConfigPath;
 
-[General]
-Anchor=0.5,0.5
-Blur=false
-ColorRandomization=false
-Description=${themeName}
-FillStyle=Tile
-Opacity=1
-Wallpaper=
-WallpaperFlipType=NoFlip
-WallpaperOpacity=1
-`;
+  try {
+    fs.mkdirSync(tmuxDir, { recursive: true });
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors }, 'tmux'));
 
-  const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
-  const themePath = path.join(konsoleDir, `${slugName}.colorscheme`);
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    fs.writeFileSync(configPath, upsertManagedBlock(existing, `source-file -q "${themePath}"`));
+  } catch (err) {
+    return { success: false, message: `Failed to write tmux files: ${err}` };
+  }
 
+  // Fails when no tmux server is running; the next session picks the file up from tmux.conf
   try {
-    fs.writeFileSync(themePath, konsoleTheme);
-    return {
-      success: true,
-      message: `Theme saved to ${themePath}\nSelect in Konsole → Settings → Edit Current Profile → Appearance`
-    };
+    execSync(`tmux source-file "${themePath}"`, { stdio: 'pipe' });
   } catch {
-    return { success: false, message: 'Failed to write colorscheme file.' };
+    return { success: true, message: `Theme saved to ${themePath} and sourced from ${configPath}` };
   }
+
+  return { success: true, message: 'Theme applied to the running tmux server!' };
 }
 
-// Helper: Convert hex to Konsole RGB format (r,g,b)
-function hexToKonsoleRgb(hex: string): string {
-  const r = parseInt(hex.slice(1, 3), 16);
-  const g = parseInt(hex.slice(3, 5), 16);
-  const b = parseInt(hex.slice(5, 7), 16);
-  return `${r},${g},${b}`;
+// Apply theme to Zellij: a KDL theme file plus a managed theme line in config.kdl
+function applyToZellij(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const zellijDir = path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'zellij');
+  const configPath = path.join(zellijDir, 'config.kdl');
+  const zellijTheme = generatedThemeName({ name: themeName, colors });
+  const themePath = path.join(zellijDir, 'themes', `${zellijTheme}.kdl`);
+
+  try {
+    fs.mkdirSync(path.dirname(themePath), { recursive: true });
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors }, 'zellij'));
+
+    // Comment out the user's own theme line the first time, so there is only one
+    let existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    if (!hasManagedBlock(existing, '//')) {
+      existing = existing.replace(/^theme\s+".*$/gm, line => `// ${line}`);
+    }
+    fs.writeFileSync(configPath, upsertManagedBlock(existing, `theme "${zellijTheme}"`, '//'));
+  } catch (err) {
+    return { success: false, message: `Failed to write Zellij files: ${err}` };
+  }
+
+  return { success: true, message: `Theme saved to ${themePath}\nRunning Zellij sessions pick up config.kdl changes on their own.` };
+}
+
+// Apply theme to GNU screen: a palette file sourced from ~/.screenrc, reloaded into the current session
+function applyToScreen(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const themePath = path.join(os.homedir(), '.config/shellshade', 'screen.screenrc');
+  const screenrcPath = path.join(os.homedir(), '.screenrc');
+
+  try {
+    fs.mkdirSync(path.dirname(themePath), { recursive: true });
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors }, 'screen'));
+
+    const existing = fs.existsSync(screenrcPath) ? fs.readFileSync(screenrcPath, 'utf-8') : '';
+    fs.writeFileSync(screenrcPath, upsertManagedBlock(existing, `source "${themePath}"`));
+  } catch (err) {
+    return { success: false, message: `Failed to write screen files: ${err}` };
+  }
+
+  // STY names the screen session this CLI runs in
+  if (process.env.STY) {
+    try {
+      execSync(`screen -S "${process.env.STY}" -X source "${themePath}"`, { stdio: 'pipe' });
+      return { success: true, message: 'Theme applied to the current screen session!' };
+    } catch {
+      // Fall through to the manual instructions
+    }
+  }
+
+  return { success: true, message: `Theme saved to ${themePath} and sourced from ${screenrcPath}\nNew screen sessions will use it.` };
+}
+
+// Apply theme to Neovim: a Lua colorscheme in the colors directory of the config
+function applyToNeovim(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const configDir = currentPlatform === 'windows'
+    ? path.join(process.env.LOCALAPPDATA || path.join(os.homedir(), 'AppData/Local'), 'nvim')
+    : path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'nvim');
+  const colorscheme = generatedThemeName({ name: themeName, colors });
+  const themePath = path.join(configDir, 'colors', `${colorscheme}.lua`);
+
+  try {
+    fs.mkdirSync(path.dirname(themePath), { recursive: true });
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors }, 'neovim'));
+  } catch (err) {
+    return { success: false, message: `Failed to write Neovim colorscheme: ${err}` };
+  }
+
+  return { success: true, message: `Colorscheme saved to ${themePath}\nRun :colorscheme ${colorscheme} in Neovim, or add it to your init.lua.` };
+}
+
+// Apply theme to Vim: a Vimscript colorscheme in ~/.vim/colors (~/vimfiles/colors on Windows)
+function applyToVim(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const vimDir = path.join(os.homedir(), currentPlatform === 'windows' ? 'vimfiles' : '.vim');
+  const colorscheme = generatedThemeName({ name: themeName, colors });
+  const themePath = path.join(vimDir, 'colors', `${colorscheme}.vim`);
+
+  try {
+    fs.mkdirSync(path.dirname(themePath), { recursive: true });
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors }, 'vim'));
+  } catch (err) {
+    return { success: false, message: `Failed to write Vim colorscheme: ${err}` };
+  }
+
+  return { success: true, message: `Colorscheme saved to ${themePath}\nRun :colorscheme ${colorscheme} in Vim, or add it to your vimrc.` };
+}
+
+// Apply theme to Helix: a theme TOML in the themes directory of the config
+function applyToHelix(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const configDir = currentPlatform === 'windows'
+    ? path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData/Roaming'), 'helix')
+    : path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'helix');
+  const helixTheme = generatedThemeName({ name: themeName, colors });
+  const themePath = path.join(configDir, 'themes', `${helixTheme}.toml`);
+
+  try {
+    fs.mkdirSync(path.dirname(themePath), { recursive: true });
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors }, 'helix'));
+  } catch (err) {
+    return { success: false, message: `Failed to write Helix theme: ${err}` };
+  }
+
+  return { success: true, message: `Theme saved to ${themePath}\nRun :theme ${helixTheme} in Helix, or set theme = "${helixTheme}" in config.toml.` };
+}
+
+// Source a snippet from the bash and zsh rc files that exist, next to the other
+// snippets already in their managed block. Returns the rc files it was added to.
+function sourceFromShellRc(snippetPath: string): string[] {
+  const sourceLine = `[ -f "${snippetPath}" ] && . "${snippetPath}"`;
+  const rcPaths = ['.bashrc', '.zshrc']
+    .map(file => path.join(os.homedir(), file))
+    .filter(rcPath => fs.existsSync(rcPath));
+
+  for (const rcPath of rcPaths) {
+    const existing = fs.readFileSync(rcPath, 'utf-8');
+    const lines = getManagedBlock(existing)?.split('\n') ?? [];
+    if (!lines.includes(sourceLine)) lines.push(sourceLine);
+    fs.writeFileSync(rcPath, upsertManagedBlock(existing, lines.join('\n')));
+  }
+  return rcPaths;
+}
+
+// Apply theme to fzf: FZF_DEFAULT_OPTS colors in a snippet sourced from the shell rc files
+function applyToFzf(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const snippetPath = path.join(os.homedir(), '.config/shellshade', 'fzf.sh');
+  let rcPaths: string[];
+
+  try {
+    fs.mkdirSync(path.dirname(snippetPath), { recursive: true });
+    fs.writeFileSync(snippetPath, serializeTheme({ name: themeName, colors }, 'fzf'));
+    rcPaths = sourceFromShellRc(snippetPath);
+  } catch (err) {
+    return { success: false, message: `Failed to write fzf colors: ${err}` };
+  }
+
+  if (rcPaths.length === 0) {
+    return { success: true, message: `Colors saved to ${snippetPath}\nSource it from your shell startup file to use them.` };
+  }
+  return { success: true, message: `Colors saved to ${snippetPath} and sourced from ${rcPaths.join(', ')}\nNew shells will use them.` };
+}
+
+// bat looks for themes and its config file in its own config directory
+function getBatConfigDir(): string {
+  if (process.env.BAT_CONFIG_DIR) return process.env.BAT_CONFIG_DIR;
+  return currentPlatform === 'windows'
+    ? path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData/Roaming'), 'bat')
+    : path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'bat');
+}
+
+// Apply theme to bat: a .tmTheme in the themes directory, selected with --theme in the config file
+function applyToBat(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const batDir = getBatConfigDir();
+  const batTheme = generatedThemeName({ name: themeName, colors });
+  const themePath = path.join(batDir, 'themes', `${batTheme}.tmTheme`);
+  const configPath = process.env.BAT_CONFIG_PATH || path.join(batDir, 'config');
+
+  try {
+    fs.mkdirSync(path.dirname(themePath), { recursive: true });
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors }, 'bat'));
+
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    fs.writeFileSync(configPath, upsertManagedBlock(existing, `--theme="${batTheme}"`));
+  } catch (err) {
+    return { success: false, message: `Failed to write bat files: ${err}` };
+  }
+
+  // bat only sees new themes after rebuilding its cache; Debian and Ubuntu ship it as batcat
+  for (const command of ['bat', 'batcat']) {
+    try {
+      execSync(`${command} cache --build`, { stdio: 'pipe' });
+      return { success: true, message: `Theme saved to ${themePath} and set in ${configPath}` };
+    } catch {
+      // Try the next name
+    }
+  }
+
+  return { success: true, message: `Theme saved to ${themePath} and set in ${configPath}\nRun \`bat cache --build\` to load it.` };
+}
+
+// Apply theme to delta: a feature block in the global gitconfig, enabled under [delta]
+function applyToDelta(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  // Git reads ~/.gitconfig, or the XDG config when there is no ~/.gitconfig
+  const homeConfigPath = path.join(os.homedir(), '.gitconfig');
+  const xdgConfigPath = path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'git/config');
+  const configPath = !fs.existsSync(homeConfigPath) && fs.existsSync(xdgConfigPath) ? xdgConfigPath : homeConfigPath;
+
+  try {
+    const feature = serializeTheme({ name: themeName, colors }, 'delta').replace(/^#.*\n/gm, '');
+    let content = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    content = upsertManagedBlock(content, feature);
+
+    const features = getIniValue(content, 'delta', 'features')?.split(/\s+/).filter(Boolean) ?? [];
+    if (!features.includes(DELTA_FEATURE)) {
+      content = setIniValues(content, 'delta', { features: [...features, DELTA_FEATURE].join(' ') });
+    }
+    fs.writeFileSync(configPath, content);
+  } catch (err) {
+    return { success: false, message: `Failed to update ${configPath}: ${err}` };
+  }
+
+  return { success: true, message: `delta feature "${DELTA_FEATURE}" enabled in ${configPath}` };
+}
+
+// lazygit's config.yml location, which follows XDG_CONFIG_HOME on every platform when set
+function getLazygitConfigPath(): string {
+  const configDir = process.env.XDG_CONFIG_HOME
+    ? process.env.XDG_CONFIG_HOME
+    : currentPlatform === 'macos'
+      ? path.join(os.homedir(), 'Library/Application Support')
+      : currentPlatform === 'windows'
+        ? process.env.LOCALAPPDATA || path.join(os.homedir(), 'AppData/Local')
+        : path.join(os.homedir(), '.config');
+  return path.join(configDir, 'lazygit/config.yml');
+}
+
+// Apply theme to lazygit: gui.theme in config.yml, keeping the rest of the file
+function applyToLazygit(colors: ThemeColors): { success: boolean; message: string } {
+  const configPath = getLazygitConfigPath();
+
+  try {
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    const doc = yaml.parseDocument(existing);
+    if (doc.errors.length > 0) {
+      return { success: false, message: `Could not parse ${configPath}: ${doc.errors[0].message}` };
+    }
+
+    doc.setIn(['gui', 'theme'], doc.createNode(toLazygitTheme(colors)));
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, String(doc));
+  } catch (err) {
+    return { success: false, message: `Failed to update ${configPath}: ${err}` };
+  }
+
+  return { success: true, message: `Theme set in ${configPath}\nRestart lazygit to see it.` };
+}
+
+// Apply theme to btop: a .theme file selected with color_theme in btop.conf
+function applyToBtop(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const btopDir = path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'btop');
+  const themePath = path.join(btopDir, 'themes', `${generatedThemeName({ name: themeName, colors })}.theme`);
+  const configPath = path.join(btopDir, 'btop.conf');
+
+  try {
+    fs.mkdirSync(path.dirname(themePath), { recursive: true });
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors }, 'btop'));
+
+    // btop rewrites btop.conf on exit, so set the line itself rather than a managed block
+    const setting = `color_theme = "${themePath}"`;
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    const updated = /^color_theme\s*=.*$/m.test(existing)
+      ? existing.replace(/^color_theme\s*=.*$/m, setting)
+      : `${existing.replace(/\s+$/, '')}${existing.trim() ? '\n' : ''}${setting}\n`;
+    fs.writeFileSync(configPath, updated);
+  } catch (err) {
+    return { success: false, message: `Failed to write btop files: ${err}` };
+  }
+
+  return { success: true, message: `Theme saved to ${themePath} and set in ${configPath}\nQuit btop first if it is running; it saves its config on exit.` };
+}
+
+// Apply theme to ls and eza: LS_COLORS and EZA_COLORS exports sourced from the shell rc
+// files, plus a dircolors database for setups that load one themselves
+function applyToLsColors(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const shellshadeDir = path.join(os.homedir(), '.config/shellshade');
+  const snippetPath = path.join(shellshadeDir, 'ls-colors.sh');
+  const dircolorsPath = path.join(shellshadeDir, 'dircolors');
+  let rcPaths: string[];
+
+  try {
+    fs.mkdirSync(shellshadeDir, { recursive: true });
+    fs.writeFileSync(dircolorsPath, serializeTheme({ name: themeName, colors }, 'dircolors'));
+    fs.writeFileSync(snippetPath, serializeTheme({ name: themeName, colors }, 'ls-colors'));
+    rcPaths = sourceFromShellRc(snippetPath);
+  } catch (err) {
+    return { success: false, message: `Failed to write LS_COLORS: ${err}` };
+  }
+
+  const saved = `LS_COLORS and EZA_COLORS saved to ${snippetPath}, dircolors database to ${dircolorsPath}`;
+  if (rcPaths.length === 0) {
+    return { success: true, message: `${saved}\nSource ${snippetPath} from your shell startup file to use them.` };
+  }
+  return { success: true, message: `${saved}\nSourced from ${rcPaths.join(', ')}; new shells will use them.` };
+}
+
+// Apply theme to lsd: colors.yaml in its config directory, selected with color.theme: custom
+function applyToLsd(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const lsdDir = currentPlatform === 'windows'
+    ? path.join(process.env.APPDATA || path.join(os.homedir(), 'AppData/Roaming'), 'lsd')
+    : path.join(process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config'), 'lsd');
+  const colorsPath = path.join(lsdDir, 'colors.yaml');
+  const configPath = path.join(lsdDir, 'config.yaml');
+
+  // lsd only reads colors.yaml, so never replace one the user wrote
+  if (fs.existsSync(colorsPath) && !fs.readFileSync(colorsPath, 'utf-8').includes('Generated by ShellShade')) {
+    return { success: false, message: `${colorsPath} already exists; move it aside to let ShellShade manage lsd colors.` };
+  }
+
+  try {
+    fs.mkdirSync(lsdDir, { recursive: true });
+    fs.writeFileSync(colorsPath, serializeTheme({ name: themeName, colors }, 'lsd'));
+
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    const doc = yaml.parseDocument(existing);
+    if (doc.errors.length > 0) {
+      return { success: false, message: `Could not parse ${configPath}: ${doc.errors[0].message}` };
+    }
+    doc.setIn(['color', 'theme'], 'custom');
+    fs.writeFileSync(configPath, String(doc));
+  } catch (err) {
+    return { success: false, message: `Failed to write lsd files: ${err}` };
+  }
+
+  return { success: true, message: `Colors saved to ${colorsPath}\nFile extension colors come from LS_COLORS.` };
+}
+
+// Apply theme to Starship: a managed [palettes.shellshade] table in starship.toml, selected with palette
+function applyToStarship(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const configPath = process.env.STARSHIP_CONFIG || path.join(os.homedir(), '.config/starship.toml');
+  const serialized = serializeTheme({ name: themeName, colors }, 'starship');
+  const paletteLine = serialized.match(/^palette = .*$/m)?.[0] ?? '';
+  const table = serialized.slice(serialized.indexOf('[palettes.'));
+
+  try {
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+
+    // palette has to be a top-level key above the first table, so it is set in
+    // place instead of in the managed block at the end
+    const lines = existing.split('\n');
+    let firstTable = lines.findIndex(line => /^\s*\[/.test(line));
+    if (firstTable === -1) firstTable = lines.length;
+    const paletteIndex = lines.findIndex((line, index) => index < firstTable && /^\s*palette\s*=/.test(line));
+    if (paletteIndex !== -1) {
+      lines[paletteIndex] = paletteLine;
+    } else {
+      lines.unshift(paletteLine);
+    }
+
+    fs.mkdirSync(path.dirname(configPath), { recursive: true });
+    fs.writeFileSync(configPath, upsertManagedBlock(lines.join('\n'), table));
+  } catch (err) {
+    return { success: false, message: `Failed to update ${configPath}: ${err}` };
+  }
+
+  return { success: true, message: `Palette set in ${configPath}\nNew prompts will use it.` };
+}
+
+// Apply theme to oh-my-posh: the palette of the config the current shell was started with
+function applyToOhMyPosh(colors: ThemeColors): { success: boolean; message: string } {
+  // oh-my-posh init exports the config path it was given
+  const configPath = process.env.POSH_THEME;
+  if (!configPath || !fs.existsSync(configPath)) {
+    return { success: false, message: 'No oh-my-posh config found. Run this from a shell set up with `oh-my-posh init --config <file>`.' };
+  }
+
+  const palette = toOhMyPoshPalette(colors);
+  const extension = path.extname(configPath).toLowerCase();
+
+  try {
+    let content = fs.readFileSync(configPath, 'utf-8');
+    if (extension === '.json' || extension === '.jsonc') {
+      for (const [name, hex] of Object.entries(palette)) {
+        content = setJsoncValue(content, ['palette', name], hex);
+      }
+    } else if (extension === '.yaml' || extension === '.yml') {
+      const doc = yaml.parseDocument(content);
+      if (doc.errors.length > 0) {
+        return { success: false, message: `Could not parse ${configPath}: ${doc.errors[0].message}` };
+      }
+      for (const [name, hex] of Object.entries(palette)) {
+        doc.setIn(['palette', name], hex);
+      }
+      content = String(doc);
+    } else if (extension === '.toml') {
+      if (!hasManagedBlock(content) && /^\s*\[palette\]/m.test(content)) {
+        return { success: false, message: `${configPath} already has a [palette] table; remove it to let ShellShade manage the palette.` };
+      }
+      const entries = Object.entries(palette).map(([name, hex]) => `${name} = "${hex}"`);
+      content = upsertManagedBlock(content, `[palette]\n${entries.join('\n')}`);
+    } else {
+      return { success: false, message: `Unsupported oh-my-posh config format: ${configPath}` };
+    }
+    fs.writeFileSync(configPath, content);
+  } catch (err) {
+    return { success: false, message: `Failed to update ${configPath}: ${err}` };
+  }
+
+  return { success: true, message: `Palette set in ${configPath}\nUse p:<name> colors (p:blue, p:brightBlack, ...) in your segments.` };
+}
+
+// Apply theme to Powerlevel10k: foreground overrides in a managed block at the end of ~/.p10k.zsh
+function applyToP10k(colors: ThemeColors, themeName: string): { success: boolean; message: string } {
+  const configPath = process.env.POWERLEVEL9K_CONFIG_FILE || path.join(os.homedir(), '.p10k.zsh');
+  if (!fs.existsSync(configPath)) {
+    return { success: false, message: `${configPath} not found. Run \`p10k configure\` first.` };
+  }
+
+  try {
+    const overrides = serializeTheme({ name: themeName, colors }, 'p10k').replace(/^#.*\n/gm, '');
+    const existing = fs.readFileSync(configPath, 'utf-8');
+    fs.writeFileSync(configPath, upsertManagedBlock(existing, overrides));
+  } catch (err) {
+    return { success: false, message: `Failed to update ${configPath}: ${err}` };
+  }
+
+  return { success: true, message: `Prompt colors set in ${configPath}\nRun \`p10k reload\` or open a new shell to see them.` };
 }
 
 // Unified apply function
-function applyTheme(db: Database.Database, themeId: string, themeName: string, terminal: Terminal): { success: boolean; message: string } {
+// Target-specific apply options
+interface ApplyOptions {
+  // Workbench theme to scope VS Code terminal colors to
+  vscodeScope?: string;
+}
+
+function applyTheme(
+  db: Database.Database,
+  themeId: string,
+  themeName: string,
+  target: ApplyTarget,
+  options: ApplyOptions = {}
+): { success: boolean; message: string } {
   const colors = getFullThemeColors(db, themeId);
   if (!colors) {
     return { success: false, message: 'Theme not found' };
   }
 
-  switch (terminal) {
+  switch (target) {
     // macOS
     case 'terminal':
-      return applyToTerminalApp(colors, themeName);
+      return applyToTerminalApp(colors, themeName, getThemeSettings(db, themeId), getThemeSourceFormat(db, themeId));
     case 'iterm2':
       return applyToIterm2(colors, themeName, themeId);
     case 'warp':
-      return applyToWarp(colors, themeName);
+      return applyToWarp(colors, themeName, getThemeSettings(db, themeId));
     // Windows
     case 'windows-terminal':
       return applyToWindowsTerminal(colors, themeName);
@@ -1269,16 +1833,131 @@ function applyTheme(db: Database.Database, themeId: string, themeName: string, t
       return applyToGnomeTerminal(colors, themeName);
     case 'konsole':
       return applyToKonsole(colors, themeName);
+    case 'xterm':
+    case 'urxvt':
+      return applyToXresources(colors, themeName, target);
+    case 'xfce4-terminal':
+      return applyToXfceTerminal(colors, themeName);
+    case 'tilix':
+      return applyToTilix(colors, themeName);
+    case 'terminator':
+      return applyToTerminator(colors, themeName);
+    case 'foot':
+      return applyToFoot(colors, themeName);
     // Cross-platform
     case 'alacritty':
       return applyToAlacritty(colors, themeName);
     case 'kitty':
       return applyToKitty(colors, themeName);
+    case 'wezterm':
+      return applyToWezterm(colors, themeName);
+    case 'ghostty':
+      return applyToGhostty(colors, themeName);
+    case 'hyper':
+      return applyToHyper(colors, themeName);
+    case 'tabby':
+      return applyToTabby(colors, themeName);
+    case 'vscode':
+      return applyToVscode(colors, themeName, options.vscodeScope);
+    // Multiplexers
+    case 'tmux':
+      return applyToTmux(colors, themeName);
+    case 'zellij':
+      return applyToZellij(colors, themeName);
+    case 'screen':
+      return applyToScreen(colors, themeName);
+    // Editors
+    case 'neovim':
+      return applyToNeovim(colors, themeName);
+    case 'vim':
+      return applyToVim(colors, themeName);
+    case 'helix':
+      return applyToHelix(colors, themeName);
+    // CLI tools
+    case 'fzf':
+      return applyToFzf(colors, themeName);
+    case 'bat':
+      return applyToBat(colors, themeName);
+    case 'delta':
+      return applyToDelta(colors, themeName);
+    case 'lazygit':
+      return applyToLazygit(colors);
+    case 'btop':
+      return applyToBtop(colors, themeName);
+    case 'ls-colors':
+      return applyToLsColors(colors, themeName);
+    case 'lsd':
+      return applyToLsd(colors, themeName);
+    // Prompts
+    case 'starship':
+      return applyToStarship(colors, themeName);
+    case 'oh-my-posh':
+      return applyToOhMyPosh(colors);
+    case 'p10k':
+      return applyToP10k(colors, themeName);
     default:
       return { success: false, message: 'Unsupported terminal' };
   }
 }
 
+// Get the format a theme was imported from, if any
+function getThemeSourceFormat(db: Database.Database, themeId: string): ThemeFormat | undefined {
+  const row = db.prepare('SELECT source_format FROM themes WHERE id = ?').get(themeId) as { source_format: string | null } | undefined;
+  return (row?.source_format || undefined) as ThemeFormat | undefined;
+}
+
+// Get theme settings (font, cursor) for export
+function getThemeSettings(db: Database.Database, themeId: string): ThemeSettings {
+  const rows = db.prepare(`
+    SELECT setting_key, setting_value FROM theme_settings WHERE theme_id = ?
+  `).all(themeId) as Array<{ setting_key: string; setting_value: string }>;
+
+  return rowsToSettings(rows);
+}
+
+// Export theme to a file in any supported format
+function exportTheme(
+  db: Database.Database,
+  themeId: string,
+  themeName: string,
+  format: ThemeFormat,
+  outputPath?: string,
+  options?: SerializeOptions
+): { success: boolean; message: string } {
+  const colors = getFullThemeColors(db, themeId);
+  if (!colors) {
+    return { success: false, message: 'Theme not found' };
+  }
+
+  const row = db.prepare('SELECT author, description FROM themes WHERE id = ?').get(themeId) as
+    { author: string | null; description: string | null } | undefined;
+
+  const theme = {
+    id: themeId,
+    name: themeName,
+    author: row?.author || undefined,
+    description: row?.description || undefined,
+    sourceFormat: getThemeSourceFormat(db, themeId),
+    colors,
+    settings: getThemeSettings(db, themeId),
+  };
+
+  const targetPath = path.resolve(outputPath || getExportFileName(theme, format));
+
+  try {
+    fs.writeFileSync(targetPath, serializeTheme(theme, format, options));
+  } catch (err) {
+    return { success: false, message: `Failed to write ${targetPath}: ${err}` };
+  }
+
+  db.prepare(`
+    INSERT INTO export_history (theme_id, format, export_path, exported_at)
+    VALUES (?, ?, ?, ?)
+  `).run(themeId, format, targetPath, Date.now());
+
+  return { success: true, message: `Exported ${getSerializer(format).label} theme to ${targetPath}` };
+}
+
 // Current terminal state
 let currentTerminal: Terminal = detectTerminal();
 
@@ -1625,19 +2304,28 @@ async function main(): Promise<void> {
     let targetTerminal = currentTerminal;
     const terminalFlagIndex = args.findIndex(a => a === '--terminal' || a === '-t');
     if (terminalFlagIndex !== -1 && args[terminalFlagIndex + 1]) {
-      const termArg = args[terminalFlagIndex + 1].toLowerCase();
-      const matchedTerminal = (Object.keys(terminalNames) as Terminal[]).find(t =>
-        t === termArg || terminalNames[t].toLowerCase().includes(termArg)
-      );
+      const matchedTerminal = findTerminal(args[terminalFlagIndex + 1]);
       if (matchedTerminal) {
         targetTerminal = matchedTerminal;
       }
     }
 
-    // Find theme (exclude --terminal flag from search)
-    const themeName = args.slice(1).filter((_, i) =>
-      i !== terminalFlagIndex - 1 && i !== terminalFlagIndex
-    ).join(' ') || args[1];
+    // Parse optional --scope flag (VS Code: only for this workbench theme)
+    let vscodeScope: string | undefined;
+    const scopeFlagIndex = args.indexOf('--scope');
+    if (scopeFlagIndex !== -1 && args[scopeFlagIndex + 1]) {
+      vscodeScope = args[scopeFlagIndex + 1];
+    }
+
+    // --tools themes the CLI tools instead, plus the terminal when one is named with -t
+    const toolsFlagIndex = args.indexOf('--tools');
+    const targets: ApplyTarget[] = toolsFlagIndex === -1
+      ? [targetTerminal]
+      : [...(terminalFlagIndex !== -1 ? [targetTerminal] : []), ...cliTools];
+
+    // Find theme (exclude --terminal, --scope and --tools flags from search)
+    const flagIndexes = new Set([terminalFlagIndex, terminalFlagIndex + 1, scopeFlagIndex, scopeFlagIndex + 1, toolsFlagIndex]);
+    const themeName = args.filter((_, i) => i > 0 && !flagIndexes.has(i)).join(' ') || args[1];
 
     const theme = themes.find(t =>
       t.name.toLowerCase() === themeName.toLowerCase() ||
@@ -1648,14 +2336,81 @@ async function main(): Promise<void> {
       db.close();
       process.exit(1);
     }
-    console.log(chalk.dim(`\nApplying "${theme.name}" to ${terminalNames[targetTerminal]}...`));
-    const result = applyTheme(db, theme.id, theme.name, targetTerminal);
-    if (result.success) {
-      console.log(chalk.green(`✓ ${result.message}\n`));
-    } else {
-      console.log(chalk.yellow(`! ${result.message}\n`));
+    for (const target of targets) {
+      const targetName = target in toolNames ? toolNames[target as Tool] : terminalNames[target as Terminal];
+      console.log(chalk.dim(`\nApplying "${theme.name}" to ${targetName}...`));
+      const result = applyTheme(db, theme.id, theme.name, target, { vscodeScope });
+      if (result.success) {
+        console.log(chalk.green(`✓ ${result.message}`));
+      } else {
+        console.log(chalk.yellow(`! ${result.message}`));
+      }
+    }
+    console.log();
+    db.close();
+    return;
+  }
+
+  if (args[0] === 'export' && args[1]) {
+    const db = getDatabase();
+    if (!db) process.exit(1);
+    const themes = getThemes(db);
+
+    // Parse --format, --output and --p3 flags
+    const formats = listSerializers().map(s => s.format);
+    let format: ThemeFormat = 'json';
+    let outputPath: string | undefined;
+    const flagIndexes = new Set<number>();
+
+    const p3FlagIndex = args.indexOf('--p3');
+    if (p3FlagIndex !== -1) {
+      flagIndexes.add(p3FlagIndex);
+    }
+
+    const formatFlagIndex = args.findIndex(a => a === '--format' || a === '-f');
+    if (formatFlagIndex !== -1 && args[formatFlagIndex + 1]) {
+      const formatArg = args[formatFlagIndex + 1].toLowerCase() as ThemeFormat;
+      if (!formats.includes(formatArg)) {
+        console.log(chalk.red(`\nUnknown format "${formatArg}". Available: ${formats.join(', ')}\n`));
+        db.close();
+        process.exit(1);
+      }
+      format = formatArg;
+      flagIndexes.add(formatFlagIndex).add(formatFlagIndex + 1);
     }
+
+    const outputFlagIndex = args.findIndex(a => a === '--output' || a === '-o');
+    if (outputFlagIndex !== -1 && args[outputFlagIndex + 1]) {
+      outputPath = args[outputFlagIndex + 1];
+      flagIndexes.add(outputFlagIndex).add(outputFlagIndex + 1);
+    }
+
+    // Find theme (exclude flags from search): an exact name first, else a single partial match
+    const themeName = args.filter((_, i) => i > 0 && !flagIndexes.has(i)).join(' ');
+    const query = themeName.toLowerCase();
+    const exact = themes.find(t => t.name.toLowerCase() === query);
+    const partial = exact ? [exact] : themes.filter(t => t.name.toLowerCase().includes(query));
+    if (!themeName || partial.length === 0) {
+      console.log(chalk.red(`\nTheme "${themeName}" not found\n`));
+      db.close();
+      process.exit(1);
+    }
+    if (partial.length > 1) {
+      console.log(chalk.red(`\nTheme "${themeName}" is ambiguous: ${partial.map(t => t.name).join(', ')}\n`));
+      db.close();
+      process.exit(1);
+    }
+    const theme = partial[0];
+
+    const result = exportTheme(db, theme.id, theme.name, format, outputPath, {
+      colorSpace: p3FlagIndex !== -1 ? 'P3' : 'sRGB',
+    });
     db.close();
+    if (!result.success) {
+      console.log(chalk.red(`\n✗ ${result.message}\n`));
+      process.exit(1);
+    }
+    console.log(chalk.green(`\n✓ ${result.message}\n`));
     return;
   }
 
@@ -1667,6 +2422,11 @@ async function main(): Promise<void> {
     console.log('    shellshade list                         List all themes');
     console.log('    shellshade apply <name>                 Apply theme (auto-detect terminal)');
     console.log('    shellshade apply <name> -t <terminal>   Apply theme to specific terminal');
+    console.log('                                            --scope <theme> limits VS Code colors to one workbench theme');
+    console.log('    shellshade apply <name> --tools         Theme the CLI tools (fzf, bat, delta, lazygit, btop, ls, eza, lsd)');
+    console.log('                                            and prompts (Starship, oh-my-posh, Powerlevel10k)');
+    console.log('    shellshade export <name> -f <format>    Export theme to a file (-o <path> to choose location)');
+    console.log('                                            --p3 writes iTerm2 colors in Display P3');
     console.log('    shellshade help                         Show this help\n');
 
     console.log('  Supported terminals:');
@@ -1675,6 +2435,12 @@ async function main(): Promise<void> {
       console.log(`    ${terminalNames[t]}${current}`);
     });
     console.log();
+
+    console.log('  Export formats:');
+    listSerializers().forEach(s => {
+      console.log(`    ${s.format.padEnd(14)}${s.label} (.${s.extension})`);
+    });
+    console.log();
     return;
   }
 
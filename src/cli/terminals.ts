@@ -0,0 +1,64 @@
+/**
+ * Terminals (and multiplexers and editors) the CLI can apply themes to
+ */
+
+// Terminal ids, grouped by platform
+export type Terminal =
+  // macOS
+  | 'terminal' | 'iterm2' | 'warp'
+  // Windows
+  | 'windows-terminal' | 'powershell'
+  // Cross-platform
+  | 'alacritty' | 'kitty' | 'wezterm' | 'ghostty' | 'hyper' | 'tabby' | 'vscode'
+  // Linux
+  | 'gnome-terminal' | 'konsole' | 'xfce4-terminal' | 'tilix' | 'terminator' | 'xterm' | 'urxvt' | 'foot'
+  // Multiplexers (never auto-detected: the terminal around them still needs its theme)
+  | 'tmux' | 'zellij' | 'screen'
+  // Editors (never auto-detected)
+  | 'neovim' | 'vim' | 'helix';
+
+// Terminal display names
+export const terminalNames: Record<Terminal, string> = {
+  // macOS
+  terminal: 'Terminal.app',
+  iterm2: 'iTerm2',
+  warp: 'Warp',
+  // Windows
+  'windows-terminal': 'Windows Terminal',
+  powershell: 'PowerShell',
+  // Cross-platform
+  alacritty: 'Alacritty',
+  kitty: 'Kitty',
+  wezterm: 'WezTerm',
+  ghostty: 'Ghostty',
+  hyper: 'Hyper',
+  tabby: 'Tabby',
+  vscode: 'VS Code',
+  // Linux
+  'gnome-terminal': 'GNOME Terminal',
+  konsole: 'Konsole',
+  'xfce4-terminal': 'XFCE Terminal',
+  tilix: 'Tilix',
+  terminator: 'Terminator',
+  xterm: 'xterm',
+  urxvt: 'urxvt',
+  foot: 'foot',
+  // Multiplexers
+  tmux: 'tmux',
+  zellij: 'Zellij',
+  screen: 'GNU screen',
+  // Editors
+  neovim: 'Neovim',
+  vim: 'Vim',
+  helix: 'Helix',
+};
+
+/**
+ * Terminal named by an `apply -t` argument: an exact key wins, so `vim` is Vim
+ * even though "Neovim" contains it; otherwise the first display name containing it
+ */
+export function findTerminal(query: string): Terminal | undefined {
+  const arg = query.toLowerCase();
+  const keys = Object.keys(terminalNames) as Terminal[];
+  return keys.find(key => key === arg) ?? keys.find(key => terminalNames[key].toLowerCase().includes(arg));
+}
@@ -1,9 +1,17 @@
 import { ipcMain, dialog } from 'electron';
+import fs from 'fs';
+import path from 'path';
 import { IPC_CHANNELS } from '../../shared/types/ipc';
-import { parseThemeFile } from '../services/parsers';
+import type { DetectedFormat, GnomeTerminalProfileInfo, KonsoleSchemeInfo, WindowsTerminalSchemeInfo } from '../../shared/types/ipc';
+import { parseThemeFile, detectThemeFileFormats, listParsers, readWindowsTerminalSchemes, findKonsoleColorSchemes, readGnomeTerminalProfiles } from '../services/parsers';
+import { findWindowsTerminalSettings, dumpGnomeTerminalProfiles } from '../services/installer';
+import type { ParsedTheme } from '../services/parsers';
 import { getDatabase } from '../db/connection';
+import { colorsToRows, rowsToColors, rowsToSettings, settingsToRows } from '../../shared/db/theme-rows';
+import { getSerializer, getExportFileName } from '../../shared/formats/serializers';
+import type { SerializableTheme } from '../../shared/formats/serializers';
 import { v4 as uuidv4 } from 'uuid';
-import type { Theme, ThemeFormat } from '../../shared/types/theme';
+import type { Theme, ThemeFormat, ThemeSettings } from '../../shared/types/theme';
 
 // Helper to generate unique slug
 function generateUniqueSlug(db: ReturnType<typeof getDatabase>, baseName: string): string {
@@ -38,133 +46,259 @@ function generateUniqueName(db: ReturnType<typeof getDatabase>, baseName: string
   return name;
 }
 
-export function registerFileHandlers(): void {
-  // Import theme from file
-  ipcMain.handle(IPC_CHANNELS.FILES_IMPORT, async (_, filePath?: string): Promise<Theme | null> => {
-    let targetPath = filePath;
+// Helper to load everything a serializer needs for a stored theme
+function getExportableTheme(db: ReturnType<typeof getDatabase>, themeId: string): SerializableTheme | null {
+  const theme = db.prepare('SELECT name, author, description, source_format FROM themes WHERE id = ?').get(themeId) as {
+    name: string;
+    author: string | null;
+    description: string | null;
+    source_format: string | null;
+  } | undefined;
+
+  if (!theme) return null;
+
+  const colors = db.prepare(`
+    SELECT color_key, hex_value FROM theme_colors WHERE theme_id = ?
+  `).all(themeId) as Array<{ color_key: string; hex_value: string }>;
+
+  const settings = db.prepare(`
+    SELECT setting_key, setting_value FROM theme_settings WHERE theme_id = ?
+  `).all(themeId) as Array<{ setting_key: string; setting_value: string }>;
+
+  return {
+    id: themeId,
+    name: theme.name,
+    author: theme.author || undefined,
+    description: theme.description || undefined,
+    sourceFormat: (theme.source_format || undefined) as ThemeFormat | undefined,
+    colors: rowsToColors(colors),
+    settings: rowsToSettings(settings),
+  };
+}
 
-    if (!targetPath) {
-      const result = await dialog.showOpenDialog({
-        title: 'Import Theme',
-        filters: [
-          { name: 'All Theme Files', extensions: ['itermcolors', 'yaml', 'yml', 'json', 'conf'] },
-          { name: 'iTerm2', extensions: ['itermcolors', 'json'] },
-          { name: 'Alacritty', extensions: ['yaml', 'yml'] },
-          { name: 'Kitty', extensions: ['conf'] },
-        ],
-        properties: ['openFile'],
-      });
+// Helper to record a completed export in export_history
+function recordExport(db: ReturnType<typeof getDatabase>, themeId: string, format: ThemeFormat, exportPath: string): void {
+  db.prepare(`
+    INSERT INTO export_history (theme_id, format, export_path, exported_at)
+    VALUES (?, ?, ?, ?)
+  `).run(themeId, format, exportPath, Date.now());
+}
 
-      if (result.canceled || result.filePaths.length === 0) {
-        return null;
-      }
+// Helper to save a parsed theme to the database and return it
+function saveImportedTheme(db: ReturnType<typeof getDatabase>, parsed: ParsedTheme, filePath: string): Theme {
+  const id = uuidv4();
+  const fileName = path.basename(filePath);
+  const description = `Imported from ${fileName}`;
+
+  // Generate unique slug and name to avoid constraint violations
+  const slug = generateUniqueSlug(db, parsed.name);
+  const author = parsed.author || 'Imported';
+  const uniqueName = generateUniqueName(db, parsed.name, author);
+
+  db.prepare(`
+    INSERT INTO themes (id, name, slug, author, description, source_format, is_favorite, is_builtin, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, 0, 0, datetime('now'), datetime('now'))
+  `).run(id, uniqueName, slug, author, description, parsed.format || null);
+
+  const insertColor = db.prepare(`
+    INSERT INTO theme_colors (theme_id, color_key, hex_value)
+    VALUES (?, ?, ?)
+  `);
+
+  for (const row of colorsToRows(id, parsed.colors)) {
+    insertColor.run(row.theme_id, row.color_key, row.hex_value);
+  }
+
+  // Only store what the file carried; defaults are filled in for display, so a
+  // theme from a format without settings doesn't gain a font it never had
+  const settings: ThemeSettings = parsed.settings || {};
+  const insertSetting = db.prepare(`
+    INSERT INTO theme_settings (theme_id, setting_key, setting_value)
+    VALUES (?, ?, ?)
+  `);
+
+  for (const row of settingsToRows(id, settings)) {
+    insertSetting.run(row.theme_id, row.setting_key, row.setting_value);
+  }
+
+  return {
+    id,
+    name: uniqueName,
+    slug,
+    author,
+    description,
+    sourceFormat: parsed.format,
+    colors: parsed.colors,
+    settings,
+    tags: [],
+    isFavorite: false,
+    isBuiltin: false,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+// Helper to read the schemes from the installed Windows Terminal's settings.json
+function readInstalledWindowsTerminalSchemes(): { settingsPath: string; schemes: ParsedTheme[] } {
+  const settingsPath = findWindowsTerminalSettings();
+  if (!settingsPath) {
+    throw new Error('Windows Terminal settings not found. Is Windows Terminal installed?');
+  }
+
+  try {
+    const content = fs.readFileSync(settingsPath, 'utf-8');
+    return { settingsPath, schemes: readWindowsTerminalSchemes(content, settingsPath) };
+  } catch (err) {
+    throw new Error(`Failed to read Windows Terminal settings: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Helper to read GNOME Terminal profiles from a saved dump, or from dconf itself
+async function readGnomeTerminalDump(dumpPath?: string): Promise<{ source: string; profiles: ParsedTheme[] }> {
+  try {
+    const content = dumpPath ? fs.readFileSync(dumpPath, 'utf-8') : await dumpGnomeTerminalProfiles();
+    const source = dumpPath || 'dconf';
+    return { source, profiles: readGnomeTerminalProfiles(content) };
+  } catch (err) {
+    throw new Error(`Failed to read GNOME Terminal profiles: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// Helper to ask for a theme file to import, or null when the dialog is cancelled
+async function showImportDialog(): Promise<string | null> {
+  const parsers = listParsers();
+  const allExtensions = [...new Set(parsers.flatMap(p => p.extensions.map(ext => ext.slice(1))))];
+
+  const result = await dialog.showOpenDialog({
+    title: 'Import Theme',
+    filters: [
+      { name: 'All Theme Files', extensions: allExtensions },
+      ...parsers.map(p => ({ name: p.label, extensions: p.extensions.map(ext => ext.slice(1)) })),
+      { name: 'All Files', extensions: ['*'] },
+    ],
+    properties: ['openFile'],
+  });
+
+  return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+}
 
-      targetPath = result.filePaths[0];
+export function registerFileHandlers(): void {
+  // Import theme from file (format is auto-detected unless given)
+  ipcMain.handle(IPC_CHANNELS.FILES_IMPORT, async (_, filePath?: string, format?: ThemeFormat): Promise<Theme | null> => {
+    const targetPath = filePath || await showImportDialog();
+    if (!targetPath) {
+      return null;
     }
 
     try {
-      // Parse the theme file
-      const parsed = parseThemeFile(targetPath);
-
-      // Generate ID
-      const id = uuidv4();
-      const db = getDatabase();
-
-      // Generate unique slug and name to avoid constraint violations
-      const slug = generateUniqueSlug(db, parsed.name);
-      const uniqueName = generateUniqueName(db, parsed.name, 'Imported');
-
-      // Save to database
-      db.prepare(`
-        INSERT INTO themes (id, name, slug, author, description, is_favorite, is_builtin, created_at, updated_at)
-        VALUES (?, ?, ?, ?, ?, 0, 0, datetime('now'), datetime('now'))
-      `).run(id, uniqueName, slug, 'Imported', `Imported from ${targetPath.split('/').pop()}`);
-
-      // Insert colors
-      const insertColor = db.prepare(`
-        INSERT INTO theme_colors (theme_id, color_key, hex_value)
-        VALUES (?, ?, ?)
-      `);
-
-      const colorEntries = [
-        ['background', parsed.colors.background],
-        ['foreground', parsed.colors.foreground],
-        ['cursor', parsed.colors.cursor],
-        ['cursorText', parsed.colors.cursorText],
-        ['selection', parsed.colors.selection],
-        ['selectionText', parsed.colors.selectionText],
-        ['ansi_black', parsed.colors.ansi.black],
-        ['ansi_red', parsed.colors.ansi.red],
-        ['ansi_green', parsed.colors.ansi.green],
-        ['ansi_yellow', parsed.colors.ansi.yellow],
-        ['ansi_blue', parsed.colors.ansi.blue],
-        ['ansi_magenta', parsed.colors.ansi.magenta],
-        ['ansi_cyan', parsed.colors.ansi.cyan],
-        ['ansi_white', parsed.colors.ansi.white],
-        ['ansi_brightBlack', parsed.colors.ansi.brightBlack],
-        ['ansi_brightRed', parsed.colors.ansi.brightRed],
-        ['ansi_brightGreen', parsed.colors.ansi.brightGreen],
-        ['ansi_brightYellow', parsed.colors.ansi.brightYellow],
-        ['ansi_brightBlue', parsed.colors.ansi.brightBlue],
-        ['ansi_brightMagenta', parsed.colors.ansi.brightMagenta],
-        ['ansi_brightCyan', parsed.colors.ansi.brightCyan],
-        ['ansi_brightWhite', parsed.colors.ansi.brightWhite],
-      ];
-
-      for (const [key, value] of colorEntries) {
-        insertColor.run(id, key, value);
-      }
-
-      // Return the created theme
-      const theme: Theme = {
-        id,
-        name: uniqueName,
-        slug,
-        author: 'Imported',
-        description: `Imported from ${targetPath.split('/').pop()}`,
-        colors: parsed.colors,
-        settings: {
-          fontFamily: 'SF Mono',
-          fontSize: 13,
-          lineHeight: 1.4,
-          cursorStyle: 'block',
-          cursorBlink: true,
-        },
-        tags: [],
-        isFavorite: false,
-        isBuiltin: false,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      };
-
-      return theme;
+      const parsed = parseThemeFile(targetPath, format);
+      return saveImportedTheme(getDatabase(), parsed, targetPath);
     } catch (err) {
       throw new Error(`Failed to import theme: ${err instanceof Error ? err.message : String(err)}`);
     }
   });
 
+  // Pick a theme file without importing it, so the format can be confirmed first
+  ipcMain.handle(IPC_CHANNELS.FILES_CHOOSE_IMPORT, async (): Promise<string | null> => {
+    return showImportDialog();
+  });
+
+  // Detect candidate formats for a file, best match first
+  ipcMain.handle(IPC_CHANNELS.FILES_DETECT_FORMAT, async (_, filePath: string): Promise<DetectedFormat[]> => {
+    return detectThemeFileFormats(filePath);
+  });
+
+  // List the color schemes defined in Windows Terminal's settings.json
+  ipcMain.handle(IPC_CHANNELS.FILES_LIST_WINDOWS_TERMINAL_SCHEMES, async (): Promise<WindowsTerminalSchemeInfo[]> => {
+    const { schemes } = readInstalledWindowsTerminalSchemes();
+    return schemes.map(scheme => ({ name: scheme.name, colors: scheme.colors }));
+  });
+
+  // Import the named Windows Terminal schemes, or all of them when no names are given
+  ipcMain.handle(IPC_CHANNELS.FILES_IMPORT_WINDOWS_TERMINAL_SCHEMES, async (_, names?: string[]): Promise<Theme[]> => {
+    const { settingsPath, schemes } = readInstalledWindowsTerminalSchemes();
+    const selected = names ? schemes.filter(scheme => names.includes(scheme.name)) : schemes;
+
+    if (selected.length === 0) {
+      throw new Error('No matching Windows Terminal color schemes found');
+    }
+
+    const db = getDatabase();
+    const importAll = db.transaction(() => selected.map(scheme => saveImportedTheme(db, scheme, settingsPath)));
+    return importAll();
+  });
+
+  // List the colorschemes in ~/.local/share/konsole and /usr/share/konsole
+  ipcMain.handle(IPC_CHANNELS.FILES_LIST_KONSOLE_SCHEMES, async (): Promise<KonsoleSchemeInfo[]> => {
+    const schemes: KonsoleSchemeInfo[] = [];
+    for (const schemePath of findKonsoleColorSchemes()) {
+      try {
+        const parsed = parseThemeFile(schemePath, 'konsole');
+        schemes.push({ name: parsed.name, path: schemePath, colors: parsed.colors });
+      } catch {
+        // Skip unreadable or malformed colorschemes
+      }
+    }
+    return schemes;
+  });
+
+  // Import the given Konsole colorschemes, or every one found when no paths are given
+  ipcMain.handle(IPC_CHANNELS.FILES_IMPORT_KONSOLE_SCHEMES, async (_, paths?: string[]): Promise<Theme[]> => {
+    const parsed: Array<{ schemePath: string; theme: ParsedTheme }> = [];
+    for (const schemePath of paths ?? findKonsoleColorSchemes()) {
+      try {
+        parsed.push({ schemePath, theme: parseThemeFile(schemePath, 'konsole') });
+      } catch {
+        // Skip unreadable or malformed colorschemes, as the listing does
+      }
+    }
+
+    if (parsed.length === 0) {
+      throw new Error('No Konsole colorschemes found');
+    }
+
+    const db = getDatabase();
+    const importAll = db.transaction(() => parsed.map(({ schemePath, theme }) => saveImportedTheme(db, theme, schemePath)));
+    return importAll();
+  });
+
+  // List GNOME Terminal profiles from a dconf dump file, or from `dconf dump` when no file is given
+  ipcMain.handle(IPC_CHANNELS.FILES_LIST_GNOME_TERMINAL_PROFILES, async (_, dumpPath?: string): Promise<GnomeTerminalProfileInfo[]> => {
+    const { profiles } = await readGnomeTerminalDump(dumpPath);
+    return profiles.map(profile => ({ name: profile.name, colors: profile.colors }));
+  });
+
+  // Import the named GNOME Terminal profiles, or all of them when no names are given
+  ipcMain.handle(IPC_CHANNELS.FILES_IMPORT_GNOME_TERMINAL_PROFILES, async (_, names?: string[], dumpPath?: string): Promise<Theme[]> => {
+    const { source, profiles } = await readGnomeTerminalDump(dumpPath);
+    const selected = names ? profiles.filter(profile => names.includes(profile.name)) : profiles;
+
+    if (selected.length === 0) {
+      throw new Error('No matching GNOME Terminal profiles found');
+    }
+
+    const db = getDatabase();
+    const importAll = db.transaction(() => selected.map(profile => saveImportedTheme(db, profile, source)));
+    return importAll();
+  });
+
   // Export theme to file
-  ipcMain.handle(IPC_CHANNELS.FILES_EXPORT, async (_, _themeId: string, format: ThemeFormat, filePath?: string): Promise<string> => {
-    let targetPath = filePath;
+  ipcMain.handle(IPC_CHANNELS.FILES_EXPORT, async (_, themeId: string, format: ThemeFormat, filePath?: string): Promise<string> => {
+    const db = getDatabase();
+    const theme = getExportableTheme(db, themeId);
+    if (!theme) {
+      throw new Error('Theme not found');
+    }
 
-    const extensionMap: Record<ThemeFormat, string> = {
-      terminal: 'terminal',
-      iterm2: 'itermcolors',
-      'iterm2-json': 'json',
-      alacritty: 'yaml',
-      kitty: 'conf',
-      base16: 'yaml',
-      warp: 'yaml',
-      json: 'json',
-      css: 'css',
-    };
+    const serializer = getSerializer(format);
+    let targetPath = filePath;
 
     if (!targetPath) {
       const result = await dialog.showSaveDialog({
         title: 'Export Theme',
-        defaultPath: `theme.${extensionMap[format]}`,
+        defaultPath: getExportFileName(theme, format),
         filters: [
-          { name: format, extensions: [extensionMap[format]] },
+          { name: serializer.label, extensions: [serializer.extension] },
         ],
       });
 
@@ -175,79 +309,20 @@ export function registerFileHandlers(): void {
       targetPath = result.filePath;
     }
 
-    // TODO: Implement actual serialization with parser registry
-    throw new Error('Export not yet implemented. Coming soon!');
-  });
+    try {
+      fs.writeFileSync(targetPath, serializer.serialize(theme));
+    } catch (err) {
+      throw new Error(`Failed to export theme: ${err instanceof Error ? err.message : String(err)}`);
+    }
 
-  // Drag & drop import
-  ipcMain.handle(IPC_CHANNELS.FILES_DRAG_IMPORT, async (_, filePath: string): Promise<Theme> => {
-    // Parse and import the dropped file
-    const parsed = parseThemeFile(filePath);
-    const id = uuidv4();
-    const db = getDatabase();
+    recordExport(db, themeId, format, targetPath);
 
-    // Generate unique slug and name to avoid constraint violations
-    const slug = generateUniqueSlug(db, parsed.name);
-    const uniqueName = generateUniqueName(db, parsed.name, 'Imported');
-
-    db.prepare(`
-      INSERT INTO themes (id, name, slug, author, description, is_favorite, is_builtin, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, 0, 0, datetime('now'), datetime('now'))
-    `).run(id, uniqueName, slug, 'Imported', `Imported from ${filePath.split('/').pop()}`);
-
-    const insertColor = db.prepare(`
-      INSERT INTO theme_colors (theme_id, color_key, hex_value)
-      VALUES (?, ?, ?)
-    `);
-
-    const colorEntries = [
-      ['background', parsed.colors.background],
-      ['foreground', parsed.colors.foreground],
-      ['cursor', parsed.colors.cursor],
-      ['cursorText', parsed.colors.cursorText],
-      ['selection', parsed.colors.selection],
-      ['selectionText', parsed.colors.selectionText],
-      ['ansi_black', parsed.colors.ansi.black],
-      ['ansi_red', parsed.colors.ansi.red],
-      ['ansi_green', parsed.colors.ansi.green],
-      ['ansi_yellow', parsed.colors.ansi.yellow],
-      ['ansi_blue', parsed.colors.ansi.blue],
-      ['ansi_magenta', parsed.colors.ansi.magenta],
-      ['ansi_cyan', parsed.colors.ansi.cyan],
-      ['ansi_white', parsed.colors.ansi.white],
-      ['ansi_brightBlack', parsed.colors.ansi.brightBlack],
-      ['ansi_brightRed', parsed.colors.ansi.brightRed],
-      ['ansi_brightGreen', parsed.colors.ansi.brightGreen],
-      ['ansi_brightYellow', parsed.colors.ansi.brightYellow],
-      ['ansi_brightBlue', parsed.colors.ansi.brightBlue],
-      ['ansi_brightMagenta', parsed.colors.ansi.brightMagenta],
-      ['ansi_brightCyan', parsed.colors.ansi.brightCyan],
-      ['ansi_brightWhite', parsed.colors.ansi.brightWhite],
-    ];
-
-    for (const [key, value] of colorEntries) {
-      insertColor.run(id, key, value);
-    }
+    return targetPath;
+  });
 
-    return {
-      id,
-      name: uniqueName,
-      slug,
-      author: 'Imported',
-      description: `Imported from ${filePath.split('/').pop()}`,
-      colors: parsed.colors,
-      settings: {
-        fontFamily: 'SF Mono',
-        fontSize: 13,
-        lineHeight: 1.4,
-        cursorStyle: 'block',
-        cursorBlink: true,
-      },
-      tags: [],
-      isFavorite: false,
-      isBuiltin: false,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
+  // Drag & drop import
+  ipcMain.handle(IPC_CHANNELS.FILES_DRAG_IMPORT, async (_, filePath: string, format?: ThemeFormat): Promise<Theme> => {
+    const parsed = parseThemeFile(filePath, format);
+    return saveImportedTheme(getDatabase(), parsed, filePath);
   });
 }
@@ -6,6 +6,7 @@ import {
   installToWindowsTerminal,
   installToAlacritty,
   installToKitty,
+  installToGhostty,
   setTerminalDefault,
   getPlatform,
 } from '../services/installer';
@@ -37,6 +38,11 @@ export function registerInstallHandlers(): void {
     return installToKitty(themeId);
   });
 
+  // Install to Ghostty (macOS/Linux)
+  ipcMain.handle(IPC_CHANNELS.INSTALL_GHOSTTY, async (_, themeId: string): Promise<InstallResult> => {
+    return installToGhostty(themeId);
+  });
+
   // Set as default Terminal.app profile
   ipcMain.handle('install:set-terminal-default', async (_, themeId: string): Promise<InstallResult> => {
     return setTerminalDefault(themeId);
@@ -2,7 +2,8 @@ import { ipcMain } from 'electron';
 import { v4 as uuidv4 } from 'uuid';
 import { getDatabase } from '../db/connection';
 import { IPC_CHANNELS } from '../../shared/types/ipc';
-import type { Theme, ThemeSummary, ThemeColors, ThemeSettings, AnsiColors } from '../../shared/types/theme';
+import { colorsToRows, rowsToColors, rowsToSettings, settingsToRows } from '../../shared/db/theme-rows';
+import type { Theme, ThemeSummary } from '../../shared/types/theme';
 
 function slugify(text: string): string {
   return text
@@ -11,81 +12,6 @@ function slugify(text: string): string {
     .replace(/(^-|-$)/g, '');
 }
 
-function colorsToRows(themeId: string, colors: ThemeColors): Array<{ theme_id: string; color_key: string; hex_value: string }> {
-  const rows: Array<{ theme_id: string; color_key: string; hex_value: string }> = [];
-
-  // Core colors
-  rows.push({ theme_id: themeId, color_key: 'background', hex_value: colors.background });
-  rows.push({ theme_id: themeId, color_key: 'foreground', hex_value: colors.foreground });
-  rows.push({ theme_id: themeId, color_key: 'cursor', hex_value: colors.cursor });
-  rows.push({ theme_id: themeId, color_key: 'cursorText', hex_value: colors.cursorText });
-  rows.push({ theme_id: themeId, color_key: 'selection', hex_value: colors.selection });
-  rows.push({ theme_id: themeId, color_key: 'selectionText', hex_value: colors.selectionText });
-
-  // ANSI colors
-  const ansiKeys: (keyof AnsiColors)[] = [
-    'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white',
-    'brightBlack', 'brightRed', 'brightGreen', 'brightYellow', 'brightBlue', 'brightMagenta', 'brightCyan', 'brightWhite'
-  ];
-
-  for (const key of ansiKeys) {
-    rows.push({ theme_id: themeId, color_key: `ansi_${key}`, hex_value: colors.ansi[key] });
-  }
-
-  // Optional colors
-  if (colors.link) rows.push({ theme_id: themeId, color_key: 'link', hex_value: colors.link });
-  if (colors.badge) rows.push({ theme_id: themeId, color_key: 'badge', hex_value: colors.badge });
-  if (colors.tab) rows.push({ theme_id: themeId, color_key: 'tab', hex_value: colors.tab });
-
-  return rows;
-}
-
-function rowsToColors(rows: Array<{ color_key: string; hex_value: string }>): ThemeColors {
-  const colorMap = new Map(rows.map(r => [r.color_key, r.hex_value]));
-
-  return {
-    background: colorMap.get('background') || '#000000',
-    foreground: colorMap.get('foreground') || '#ffffff',
-    cursor: colorMap.get('cursor') || '#ffffff',
-    cursorText: colorMap.get('cursorText') || '#000000',
-    selection: colorMap.get('selection') || '#444444',
-    selectionText: colorMap.get('selectionText') || '#ffffff',
-    ansi: {
-      black: colorMap.get('ansi_black') || '#000000',
-      red: colorMap.get('ansi_red') || '#ff0000',
-      green: colorMap.get('ansi_green') || '#00ff00',
-      yellow: colorMap.get('ansi_yellow') || '#ffff00',
-      blue: colorMap.get('ansi_blue') || '#0000ff',
-      magenta: colorMap.get('ansi_magenta') || '#ff00ff',
-      cyan: colorMap.get('ansi_cyan') || '#00ffff',
-      white: colorMap.get('ansi_white') || '#ffffff',
-      brightBlack: colorMap.get('ansi_brightBlack') || '#666666',
-      brightRed: colorMap.get('ansi_brightRed') || '#ff6666',
-      brightGreen: colorMap.get('ansi_brightGreen') || '#66ff66',
-      brightYellow: colorMap.get('ansi_brightYellow') || '#ffff66',
-      brightBlue: colorMap.get('ansi_brightBlue') || '#6666ff',
-      brightMagenta: colorMap.get('ansi_brightMagenta') || '#ff66ff',
-      brightCyan: colorMap.get('ansi_brightCyan') || '#66ffff',
-      brightWhite: colorMap.get('ansi_brightWhite') || '#ffffff',
-    },
-    link: colorMap.get('link'),
-    badge: colorMap.get('badge'),
-    tab: colorMap.get('tab'),
-  };
-}
-
-function rowsToSettings(rows: Array<{ setting_key: string; setting_value: string }>): ThemeSettings {
-  const settingsMap = new Map(rows.map(r => [r.setting_key, r.setting_value]));
-
-  return {
-    fontFamily: settingsMap.get('fontFamily'),
-    fontSize: settingsMap.get('fontSize') ? parseInt(settingsMap.get('fontSize')!, 10) : undefined,
-    lineHeight: settingsMap.get('lineHeight') ? parseFloat(settingsMap.get('lineHeight')!) : undefined,
-    cursorStyle: settingsMap.get('cursorStyle') as 'block' | 'beam' | 'underline' | undefined,
-    cursorBlink: settingsMap.get('cursorBlink') === 'true',
-  };
-}
-
 export function registerThemeHandlers(): void {
   const db = getDatabase();
 
@@ -240,12 +166,9 @@ export function registerThemeHandlers(): void {
         insertColor.run(row.theme_id, row.color_key, row.hex_value);
       }
 
-      const settings = themeData.settings;
-      if (settings.fontFamily) insertSetting.run(id, 'fontFamily', settings.fontFamily);
-      if (settings.fontSize) insertSetting.run(id, 'fontSize', settings.fontSize.toString());
-      if (settings.lineHeight) insertSetting.run(id, 'lineHeight', settings.lineHeight.toString());
-      if (settings.cursorStyle) insertSetting.run(id, 'cursorStyle', settings.cursorStyle);
-      if (settings.cursorBlink !== undefined) insertSetting.run(id, 'cursorBlink', settings.cursorBlink.toString());
+      for (const row of settingsToRows(id, themeData.settings)) {
+        insertSetting.run(row.theme_id, row.setting_key, row.setting_value);
+      }
     });
 
     transaction();
@@ -297,12 +220,9 @@ export function registerThemeHandlers(): void {
       if (updates.settings) {
         db.prepare('DELETE FROM theme_settings WHERE theme_id = ?').run(id);
         const insertSetting = db.prepare('INSERT INTO theme_settings (theme_id, setting_key, setting_value) VALUES (?, ?, ?)');
-        const settings = updates.settings;
-        if (settings.fontFamily) insertSetting.run(id, 'fontFamily', settings.fontFamily);
-        if (settings.fontSize) insertSetting.run(id, 'fontSize', settings.fontSize.toString());
-        if (settings.lineHeight) insertSetting.run(id, 'lineHeight', settings.lineHeight.toString());
-        if (settings.cursorStyle) insertSetting.run(id, 'cursorStyle', settings.cursorStyle);
-        if (settings.cursorBlink !== undefined) insertSetting.run(id, 'cursorBlink', settings.cursorBlink.toString());
+        for (const row of settingsToRows(id, updates.settings)) {
+          insertSetting.run(row.theme_id, row.setting_key, row.setting_value);
+        }
       }
 
       db.prepare('UPDATE themes SET updated_at = ? WHERE id = ?').run(now, id);
@@ -5,7 +5,13 @@ import path from 'path';
 import fs from 'fs';
 import os from 'os';
 import { getDatabase } from '../db/connection';
-import type { ThemeColors } from '../../shared/types/theme';
+import { rowsToColors, rowsToSettings } from '../../shared/db/theme-rows';
+import { serializeTheme, getExportFileName } from '../../shared/formats/serializers';
+import { parseJsonc } from '../../shared/formats/jsonc';
+import { upsertManagedBlock } from '../../shared/config/managed-block';
+import type { ItermOutputColorSpace } from '../../shared/formats/color-space';
+import type { ThemeColors, ThemeFormat, ThemeSettings } from '../../shared/types/theme';
+import type { WindowsTerminalSettings } from './parsers';
 import type { InstallResult } from '../../shared/types/ipc';
 
 const execAsync = promisify(exec);
@@ -24,34 +30,7 @@ function getThemeColors(themeId: string): ThemeColors | null {
 
   if (colors.length === 0) return null;
 
-  const colorMap = new Map(colors.map(c => [c.color_key, c.hex_value]));
-
-  return {
-    background: colorMap.get('background') || '#000000',
-    foreground: colorMap.get('foreground') || '#ffffff',
-    cursor: colorMap.get('cursor') || '#ffffff',
-    cursorText: colorMap.get('cursorText') || '#000000',
-    selection: colorMap.get('selection') || '#444444',
-    selectionText: colorMap.get('selectionText') || '#ffffff',
-    ansi: {
-      black: colorMap.get('ansi_black') || '#000000',
-      red: colorMap.get('ansi_red') || '#ff0000',
-      green: colorMap.get('ansi_green') || '#00ff00',
-      yellow: colorMap.get('ansi_yellow') || '#ffff00',
-      blue: colorMap.get('ansi_blue') || '#0000ff',
-      magenta: colorMap.get('ansi_magenta') || '#ff00ff',
-      cyan: colorMap.get('ansi_cyan') || '#00ffff',
-      white: colorMap.get('ansi_white') || '#ffffff',
-      brightBlack: colorMap.get('ansi_brightBlack') || '#666666',
-      brightRed: colorMap.get('ansi_brightRed') || '#ff6666',
-      brightGreen: colorMap.get('ansi_brightGreen') || '#66ff66',
-      brightYellow: colorMap.get('ansi_brightYellow') || '#ffff66',
-      brightBlue: colorMap.get('ansi_brightBlue') || '#6666ff',
-      brightMagenta: colorMap.get('ansi_brightMagenta') || '#ff66ff',
-      brightCyan: colorMap.get('ansi_brightCyan') || '#66ffff',
-      brightWhite: colorMap.get('ansi_brightWhite') || '#ffffff',
-    },
-  };
+  return rowsToColors(colors);
 }
 
 // Get theme name from database
@@ -61,29 +40,18 @@ function getThemeName(themeId: string): string {
   return theme?.name || 'Untitled';
 }
 
-// Convert hex color to iTerm2 color dict format
-function hexToItermColorDict(hex: string): {
-  'Red Component': number;
-  'Green Component': number;
-  'Blue Component': number;
-  'Alpha Component': number;
-  'Color Space': string;
-} {
-  const r = parseInt(hex.slice(1, 3), 16) / 255;
-  const g = parseInt(hex.slice(3, 5), 16) / 255;
-  const b = parseInt(hex.slice(5, 7), 16) / 255;
-
-  return {
-    'Red Component': r,
-    'Green Component': g,
-    'Blue Component': b,
-    'Alpha Component': 1,
-    'Color Space': 'sRGB',
-  };
+// Get the format a theme was imported from, if any
+function getThemeSourceFormat(themeId: string): ThemeFormat | undefined {
+  const db = getDatabase();
+  const theme = db.prepare('SELECT source_format FROM themes WHERE id = ?').get(themeId) as { source_format: string | null } | undefined;
+  return (theme?.source_format || undefined) as ThemeFormat | undefined;
 }
 
 // Install to iTerm2 via Dynamic Profiles and auto-apply
-export async function installToIterm2(themeId: string): Promise<InstallResult> {
+export async function installToIterm2(
+  themeId: string,
+  colorSpace: ItermOutputColorSpace = 'sRGB'
+): Promise<InstallResult> {
   const colors = getThemeColors(themeId);
   const themeName = getThemeName(themeId);
 
@@ -101,41 +69,11 @@ export async function installToIterm2(themeId: string): Promise<InstallResult> {
     fs.mkdirSync(dynamicProfilesDir, { recursive: true });
   }
 
-  // Build iTerm2 profile
-  const profile = {
-    Profiles: [{
-      Name: themeName,
-      Guid: themeId,
-      'Background Color': hexToItermColorDict(colors.background),
-      'Foreground Color': hexToItermColorDict(colors.foreground),
-      'Cursor Color': hexToItermColorDict(colors.cursor),
-      'Cursor Text Color': hexToItermColorDict(colors.cursorText),
-      'Selection Color': hexToItermColorDict(colors.selection),
-      'Selected Text Color': hexToItermColorDict(colors.selectionText),
-      'Ansi 0 Color': hexToItermColorDict(colors.ansi.black),
-      'Ansi 1 Color': hexToItermColorDict(colors.ansi.red),
-      'Ansi 2 Color': hexToItermColorDict(colors.ansi.green),
-      'Ansi 3 Color': hexToItermColorDict(colors.ansi.yellow),
-      'Ansi 4 Color': hexToItermColorDict(colors.ansi.blue),
-      'Ansi 5 Color': hexToItermColorDict(colors.ansi.magenta),
-      'Ansi 6 Color': hexToItermColorDict(colors.ansi.cyan),
-      'Ansi 7 Color': hexToItermColorDict(colors.ansi.white),
-      'Ansi 8 Color': hexToItermColorDict(colors.ansi.brightBlack),
-      'Ansi 9 Color': hexToItermColorDict(colors.ansi.brightRed),
-      'Ansi 10 Color': hexToItermColorDict(colors.ansi.brightGreen),
-      'Ansi 11 Color': hexToItermColorDict(colors.ansi.brightYellow),
-      'Ansi 12 Color': hexToItermColorDict(colors.ansi.brightBlue),
-      'Ansi 13 Color': hexToItermColorDict(colors.ansi.brightMagenta),
-      'Ansi 14 Color': hexToItermColorDict(colors.ansi.brightCyan),
-      'Ansi 15 Color': hexToItermColorDict(colors.ansi.brightWhite),
-    }],
-  };
-
   const slugName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '-');
   const profilePath = path.join(dynamicProfilesDir, `${slugName}.json`);
 
   try {
-    fs.writeFileSync(profilePath, JSON.stringify(profile, null, 2));
+    fs.writeFileSync(profilePath, serializeTheme({ id: themeId, name: themeName, colors }, 'iterm2-json', { colorSpace }));
 
     // Auto-apply using AppleScript to all windows/tabs/sessions
     const appleScript = `
@@ -174,7 +112,71 @@ export async function installToIterm2(themeId: string): Promise<InstallResult> {
   }
 }
 
-// Install to Terminal.app and auto-apply
+// Get theme font and cursor settings from database
+function getThemeSettings(themeId: string): ThemeSettings {
+  const db = getDatabase();
+  const settings = db.prepare(`
+    SELECT setting_key, setting_value FROM theme_settings WHERE theme_id = ?
+  `).all(themeId) as Array<{ setting_key: string; setting_value: string }>;
+
+  return rowsToSettings(settings);
+}
+
+// AppleScript that deletes an earlier import of a profile, so waiting for the
+// new one can't finish early on the stale copy. Terminal.app won't delete a
+// settings set that is in use, so move everything off it first.
+function removeTerminalProfile(escapedName: string): string {
+  return `
+    tell application "Terminal"
+      if exists settings set "${escapedName}" then
+        set fallbackSettings to first settings set whose name is not "${escapedName}"
+        if name of default settings is "${escapedName}" then set default settings to fallbackSettings
+        if name of startup settings is "${escapedName}" then set startup settings to fallbackSettings
+        repeat with w in windows
+          repeat with t in tabs of w
+            if name of current settings of t is "${escapedName}" then set current settings of t to fallbackSettings
+          end repeat
+        end repeat
+        delete settings set "${escapedName}"
+      end if
+    end tell
+  `;
+}
+
+// Write a complete .terminal profile and open it, which imports it into Terminal.app
+async function importTerminalProfile(themeId: string, themeName: string, colors: ThemeColors): Promise<string> {
+  const profilesDir = path.join(app.getPath('userData'), 'profiles');
+  if (!fs.existsSync(profilesDir)) {
+    fs.mkdirSync(profilesDir, { recursive: true });
+  }
+
+  const theme = {
+    id: themeId,
+    name: themeName,
+    colors,
+    settings: getThemeSettings(themeId),
+    sourceFormat: getThemeSourceFormat(themeId),
+  };
+  const profilePath = path.join(profilesDir, getExportFileName(theme, 'terminal'));
+  fs.writeFileSync(profilePath, serializeTheme(theme, 'terminal'));
+
+  const removeScript = removeTerminalProfile(themeName.replace(/"/g, '\\"'));
+  await execAsync(`osascript -e '${removeScript.replace(/'/g, "'\"'\"'")}'`);
+  await execAsync(`open "${profilePath}"`);
+  return profilePath;
+}
+
+// AppleScript that waits for an opened profile to finish importing
+function waitForTerminalProfile(escapedName: string): string {
+  return `
+      repeat 20 times
+        if exists settings set "${escapedName}" then exit repeat
+        delay 0.25
+      end repeat
+  `;
+}
+
+// Install to Terminal.app by importing a generated profile and applying it
 export async function installToTerminalApp(themeId: string): Promise<InstallResult> {
   const colors = getThemeColors(themeId);
   const themeName = getThemeName(themeId);
@@ -183,28 +185,14 @@ export async function installToTerminalApp(themeId: string): Promise<InstallResu
     return { success: false, path: '', error: 'Theme not found' };
   }
 
-  // Use AppleScript to directly set Terminal colors
-  const hexToRGB = (hex: string) => {
-    const r = parseInt(hex.slice(1, 3), 16) * 257;
-    const g = parseInt(hex.slice(3, 5), 16) * 257;
-    const b = parseInt(hex.slice(5, 7), 16) * 257;
-    return `{${r}, ${g}, ${b}}`;
-  };
-
   // Escape theme name for AppleScript
   const escapedName = themeName.replace(/"/g, '\\"');
 
-  // Step 1: Create the profile and set as default
-  const createProfileScript = `
+  // Step 1: Import the profile and set as default
+  const defaultScript = `
     tell application "Terminal"
-      if not (exists settings set "${escapedName}") then
-        make new settings set with properties {name:"${escapedName}"}
-      end if
-
+      ${waitForTerminalProfile(escapedName)}
       set targetSettings to settings set "${escapedName}"
-      set background color of targetSettings to ${hexToRGB(colors.background)}
-      set normal text color of targetSettings to ${hexToRGB(colors.foreground)}
-      set cursor color of targetSettings to ${hexToRGB(colors.cursor)}
 
       -- Set as default and startup profile
       set default settings to targetSettings
@@ -213,10 +201,11 @@ export async function installToTerminalApp(themeId: string): Promise<InstallResu
   `;
 
   try {
-    // Create the profile first
-    await execAsync(`osascript -e '${createProfileScript.replace(/'/g, "'\"'\"'")}'`);
+    // Import the profile first
+    const profilePath = await importTerminalProfile(themeId, themeName, colors);
+    await execAsync(`osascript -e '${defaultScript.replace(/'/g, "'\"'\"'")}'`);
 
-    // Step 2: Try to apply to open windows (separate try/catch so profile creation is not affected)
+    // Step 2: Try to apply to open windows (separate try/catch so profile import is not affected)
     let appliedToWindows = false;
     try {
       const applyScript = `
@@ -234,19 +223,19 @@ export async function installToTerminalApp(themeId: string): Promise<InstallResu
       await execAsync(`osascript -e '${applyScript.replace(/'/g, "'\"'\"'")}'`);
       appliedToWindows = true;
     } catch {
-      // Could not apply to open windows - profile still created
+      // Could not apply to open windows - profile still imported
     }
 
     if (appliedToWindows) {
       return {
         success: true,
-        path: '',
+        path: profilePath,
         instructions: `Theme "${themeName}" applied! All open Terminal windows updated.`,
       };
     } else {
       return {
         success: true,
-        path: '',
+        path: profilePath,
         instructions: `Theme "${themeName}" saved to Terminal profiles. Select it in Terminal → Settings → Profiles, or open a new window.`,
       };
     }
@@ -254,7 +243,7 @@ export async function installToTerminalApp(themeId: string): Promise<InstallResu
     return {
       success: false,
       path: '',
-      error: `Failed to create Terminal profile. Make sure Terminal.app is running.`,
+      error: `Failed to import Terminal profile. Make sure Terminal.app is installed.`,
     };
   }
 }
@@ -268,27 +257,12 @@ export async function setTerminalDefault(themeId: string): Promise<InstallResult
     return { success: false, path: '', error: 'Theme not found' };
   }
 
-  const hexToRGB = (hex: string) => {
-    const r = parseInt(hex.slice(1, 3), 16) * 257;
-    const g = parseInt(hex.slice(3, 5), 16) * 257;
-    const b = parseInt(hex.slice(5, 7), 16) * 257;
-    return `{${r}, ${g}, ${b}}`;
-  };
-
   const escapedName = themeName.replace(/"/g, '\\"');
 
   const appleScript = `
     tell application "Terminal"
-      -- Create or update the profile (settings set)
-      if not (exists settings set "${escapedName}") then
-        set newSettings to make new settings set with properties {name:"${escapedName}"}
-      end if
-
-      tell settings set "${escapedName}"
-        set background color to ${hexToRGB(colors.background)}
-        set normal text color to ${hexToRGB(colors.foreground)}
-        set cursor color to ${hexToRGB(colors.cursor)}
-      end tell
+      -- Wait for the opened profile to be imported
+      ${waitForTerminalProfile(escapedName)}
 
       -- Set as default profile
       set default settings to settings set "${escapedName}"
@@ -299,11 +273,12 @@ export async function setTerminalDefault(themeId: string): Promise<InstallResult
   `;
 
   try {
+    const profilePath = await importTerminalProfile(themeId, themeName, colors);
     await execAsync(`osascript -e '${appleScript.replace(/'/g, "'\"'\"'")}'`);
 
     return {
       success: true,
-      path: '',
+      path: profilePath,
       instructions: `Theme "${themeName}" is now the default Terminal.app profile! New windows will use this theme.`,
     };
   } catch (err) {
@@ -324,6 +299,27 @@ function sanitizeHexColor(hex: string): string {
   return `#${sanitized.toUpperCase()}`;
 }
 
+// Windows Terminal settings.json candidates: stable, Preview, then unpackaged
+function getWindowsTerminalSettingsPaths(): string[] {
+  const localAppData = process.env.LOCALAPPDATA || path.join(os.homedir(), 'AppData', 'Local');
+  return [
+    path.join(localAppData, 'Packages/Microsoft.WindowsTerminal_8wekyb3d8bbwe/LocalState/settings.json'),
+    path.join(localAppData, 'Packages/Microsoft.WindowsTerminalPreview_8wekyb3d8bbwe/LocalState/settings.json'),
+    path.join(localAppData, 'Microsoft/Windows Terminal/settings.json'),
+  ];
+}
+
+// Find the first Windows Terminal settings file that exists, or '' if none do
+export function findWindowsTerminalSettings(): string {
+  return getWindowsTerminalSettingsPaths().find(p => fs.existsSync(p)) || '';
+}
+
+// Capture `dconf dump` of GNOME Terminal's profiles
+export async function dumpGnomeTerminalProfiles(): Promise<string> {
+  const { stdout } = await execAsync('dconf dump /org/gnome/terminal/legacy/profiles:/');
+  return stdout;
+}
+
 // Install to Windows Terminal
 export async function installToWindowsTerminal(themeId: string): Promise<InstallResult> {
   const colors = getThemeColors(themeId);
@@ -333,29 +329,7 @@ export async function installToWindowsTerminal(themeId: string): Promise<Install
     return { success: false, path: '', error: 'Theme not found' };
   }
 
-  // Windows Terminal settings path
-  const localAppData = process.env.LOCALAPPDATA || path.join(os.homedir(), 'AppData', 'Local');
-  const settingsPath = path.join(
-    localAppData,
-    'Packages/Microsoft.WindowsTerminal_8wekyb3d8bbwe/LocalState/settings.json'
-  );
-
-  // Also check for Windows Terminal Preview and unpackaged version
-  const previewSettingsPath = path.join(
-    localAppData,
-    'Packages/Microsoft.WindowsTerminalPreview_8wekyb3d8bbwe/LocalState/settings.json'
-  );
-  const unpackagedSettingsPath = path.join(localAppData, 'Microsoft/Windows Terminal/settings.json');
-
-  // Find which settings file exists
-  let actualSettingsPath = '';
-  if (fs.existsSync(settingsPath)) {
-    actualSettingsPath = settingsPath;
-  } else if (fs.existsSync(previewSettingsPath)) {
-    actualSettingsPath = previewSettingsPath;
-  } else if (fs.existsSync(unpackagedSettingsPath)) {
-    actualSettingsPath = unpackagedSettingsPath;
-  }
+  const actualSettingsPath = findWindowsTerminalSettings();
 
   if (!actualSettingsPath) {
     return {
@@ -369,73 +343,10 @@ export async function installToWindowsTerminal(themeId: string): Promise<Install
     // Read existing settings
     const settingsContent = fs.readFileSync(actualSettingsPath, 'utf-8');
 
-    // Remove comments for JSON parsing (Windows Terminal uses JSONC)
-    // We need to be careful not to remove // inside strings (like URLs)
-    // Strategy: Process character by character, tracking if we're inside a string
-    let jsonWithoutComments = '';
-    let inString = false;
-    let escaped = false;
-    let i = 0;
-
-    while (i < settingsContent.length) {
-      const char = settingsContent[i];
-      const nextChar = settingsContent[i + 1];
-
-      if (escaped) {
-        jsonWithoutComments += char;
-        escaped = false;
-        i++;
-        continue;
-      }
-
-      if (char === '\\' && inString) {
-        jsonWithoutComments += char;
-        escaped = true;
-        i++;
-        continue;
-      }
-
-      if (char === '"' && !escaped) {
-        inString = !inString;
-        jsonWithoutComments += char;
-        i++;
-        continue;
-      }
-
-      // Handle comments only when not inside a string
-      if (!inString) {
-        // Single-line comment
-        if (char === '/' && nextChar === '/') {
-          // Skip until end of line
-          while (i < settingsContent.length && settingsContent[i] !== '\n') {
-            i++;
-          }
-          continue;
-        }
-        // Multi-line comment
-        if (char === '/' && nextChar === '*') {
-          i += 2; // Skip /*
-          while (i < settingsContent.length - 1) {
-            if (settingsContent[i] === '*' && settingsContent[i + 1] === '/') {
-              i += 2; // Skip */
-              break;
-            }
-            i++;
-          }
-          continue;
-        }
-      }
-
-      jsonWithoutComments += char;
-      i++;
-    }
-
-    // Also remove trailing commas which are allowed in JSONC
-    jsonWithoutComments = jsonWithoutComments.replace(/,(\s*[}\]])/g, '$1');
-
-    let settings;
+    // Windows Terminal uses JSONC (comments and trailing commas)
+    let settings: WindowsTerminalSettings;
     try {
-      settings = JSON.parse(jsonWithoutComments);
+      settings = parseJsonc(settingsContent) as WindowsTerminalSettings;
     } catch (parseErr) {
       return {
         success: false,
@@ -536,41 +447,7 @@ export async function installToAlacritty(themeId: string): Promise<InstallResult
   }
 
   // Build Alacritty TOML color config
-  const tomlContent = `# ShellShade Theme: ${themeName}
-# Generated by ShellShade
-
-[colors.primary]
-background = "${colors.background}"
-foreground = "${colors.foreground}"
-
-[colors.cursor]
-text = "${colors.cursorText}"
-cursor = "${colors.cursor}"
-
-[colors.selection]
-text = "${colors.selectionText}"
-background = "${colors.selection}"
-
-[colors.normal]
-black = "${colors.ansi.black}"
-red = "${colors.ansi.red}"
-green = "${colors.ansi.green}"
-yellow = "${colors.ansi.yellow}"
-blue = "${colors.ansi.blue}"
-magenta = "${colors.ansi.magenta}"
-cyan = "${colors.ansi.cyan}"
-white = "${colors.ansi.white}"
-
-[colors.bright]
-black = "${colors.ansi.brightBlack}"
-red = "${colors.ansi.brightRed}"
-green = "${colors.ansi.brightGreen}"
-yellow = "${colors.ansi.brightYellow}"
-blue = "${colors.ansi.brightBlue}"
-magenta = "${colors.ansi.brightMagenta}"
-cyan = "${colors.ansi.brightCyan}"
-white = "${colors.ansi.brightWhite}"
-`;
+  const tomlContent = serializeTheme({ name: themeName, colors }, 'alacritty');
 
   try {
     // Read existing config if it exists
@@ -584,6 +461,9 @@ white = "${colors.ansi.brightWhite}"
         .replace(/\[colors\.selection\][\s\S]*?(?=\[|$)/g, '')
         .replace(/\[colors\.normal\][\s\S]*?(?=\[|$)/g, '')
         .replace(/\[colors\.bright\][\s\S]*?(?=\[|$)/g, '')
+        .replace(/\[colors\.dim\][\s\S]*?(?=\[|$)/g, '')
+        .replace(/\[colors\.(search|hints)\.\w+\][\s\S]*?(?=\[|$)/g, '')
+        .replace(/\[\[colors\.indexed_colors\]\][\s\S]*?(?=\[|$)/g, '')
         .replace(/# ShellShade Theme:.*\n# Generated by ShellShade\n*/g, '')
         .trim();
     }
@@ -635,36 +515,7 @@ export async function installToKitty(themeId: string): Promise<InstallResult> {
   }
 
   // Build Kitty color config
-  const kittyTheme = `# ShellShade Theme: ${themeName}
-# Generated by ShellShade
-
-foreground ${colors.foreground}
-background ${colors.background}
-cursor ${colors.cursor}
-cursor_text_color ${colors.cursorText}
-selection_foreground ${colors.selectionText}
-selection_background ${colors.selection}
-
-# Normal colors
-color0 ${colors.ansi.black}
-color1 ${colors.ansi.red}
-color2 ${colors.ansi.green}
-color3 ${colors.ansi.yellow}
-color4 ${colors.ansi.blue}
-color5 ${colors.ansi.magenta}
-color6 ${colors.ansi.cyan}
-color7 ${colors.ansi.white}
-
-# Bright colors
-color8 ${colors.ansi.brightBlack}
-color9 ${colors.ansi.brightRed}
-color10 ${colors.ansi.brightGreen}
-color11 ${colors.ansi.brightYellow}
-color12 ${colors.ansi.brightBlue}
-color13 ${colors.ansi.brightMagenta}
-color14 ${colors.ansi.brightCyan}
-color15 ${colors.ansi.brightWhite}
-`;
+  const kittyTheme = serializeTheme({ name: themeName, colors }, 'kitty');
 
   try {
     // Write theme file
@@ -695,3 +546,46 @@ color15 ${colors.ansi.brightWhite}
     };
   }
 }
+
+// Install to Ghostty (macOS/Linux)
+export async function installToGhostty(themeId: string): Promise<InstallResult> {
+  const colors = getThemeColors(themeId);
+  const themeName = getThemeName(themeId);
+
+  if (!colors) {
+    return { success: false, path: '', error: 'Theme not found' };
+  }
+
+  // Ghostty reads ~/.config/ghostty on both macOS and Linux
+  const xdgConfig = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  const configDir = path.join(xdgConfig, 'ghostty');
+  const themesDir = path.join(configDir, 'themes');
+
+  // Ghostty 1.2+ also reads config.ghostty; prefer it when the user has one
+  const newConfigPath = path.join(configDir, 'config.ghostty');
+  const configPath = fs.existsSync(newConfigPath) ? newConfigPath : path.join(configDir, 'config');
+
+  // Theme files have no extension; `theme =` refers to them by file name
+  const themeFileName = themeName.toLowerCase().replace(/[^a-z0-9]+/g, '_');
+  const themePath = path.join(themesDir, themeFileName);
+
+  try {
+    fs.mkdirSync(themesDir, { recursive: true });
+    fs.writeFileSync(themePath, serializeTheme({ name: themeName, colors }, 'ghostty'));
+
+    const existing = fs.existsSync(configPath) ? fs.readFileSync(configPath, 'utf-8') : '';
+    fs.writeFileSync(configPath, upsertManagedBlock(existing, `theme = ${themeFileName}`));
+
+    return {
+      success: true,
+      path: themePath,
+      instructions: `Theme "${themeName}" applied to Ghostty! Reload the config (Cmd/Ctrl+Shift+,) to see it.`,
+    };
+  } catch (err) {
+    return {
+      success: false,
+      path: themePath,
+      error: `Failed to update Ghostty config: ${err}`,
+    };
+  }
+}
@@ -1,148 +1,296 @@
 import fs from 'fs';
+import os from 'os';
 import path from 'path';
-import { execSync } from 'child_process';
-import type { ThemeColors } from '../../shared/types/theme';
+import { parse as parseToml } from 'smol-toml';
+import yaml from 'yaml';
+import type { PlistValue } from 'plist';
+import { itermColorToHex } from '../../shared/formats/color-space';
+import type { ItermColorDict } from '../../shared/formats/color-space';
+import { BASE16_KEYS, BASE24_KEYS, paletteToColors } from '../../shared/formats/base16';
+import type { BasePalette, BaseSystem } from '../../shared/formats/base16';
+import { HYPER_COLOR_NAMES } from '../../shared/formats/hyper';
+import { parseJsonc } from '../../shared/formats/jsonc';
+import { unarchiveColor, unarchiveFont } from '../../shared/formats/keyed-archive';
+import type { ArchivedFont } from '../../shared/formats/keyed-archive';
+import { parsePlist } from '../../shared/formats/plist';
+import type { TabbyColorScheme } from '../../shared/formats/tabby';
+import { ANSI_COLOR_KEYS } from '../../shared/types/theme';
+import type { AnsiColors, ExtendedColorKey, NormalAnsiKey, ThemeColors, ThemeFormat, ThemeSettings, WarpGradient, WarpMetadata } from '../../shared/types/theme';
+import type { DetectedFormat } from '../../shared/types/ipc';
 
 export interface ParsedTheme {
   name: string;
+  // Author from the file's metadata, for formats that record one
+  author?: string;
   colors: ThemeColors;
+  // Font and cursor settings, for formats that carry them
+  settings?: ThemeSettings;
+  // Format the theme was parsed as (set by parseThemeFile)
+  format?: ThemeFormat;
 }
 
-// Parse iTerm2 .itermcolors (plist XML format)
-export function parseItermColors(filePath: string): ParsedTheme {
+/**
+ * A parser for one import format. detect() returns a confidence score between
+ * 0 (not this format) and 1 (certainly this format) so that the best match can
+ * win regardless of the file extension.
+ */
+export interface ThemeParser {
+  format: ThemeFormat;
+  label: string;
+  extensions: string[];
+  detect(content: string, filename: string): number;
+  parse(content: string, filePath: string): ParsedTheme;
+}
+
+// Parse iTerm2 .itermcolors (XML or binary plist)
+export function parseItermColors(_content: string, filePath: string): ParsedTheme {
   const name = path.basename(filePath, '.itermcolors');
 
-  // Convert plist to JSON using plutil (macOS built-in)
-  const tempJsonPath = `/tmp/iterm-theme-${Date.now()}.json`;
+  let preset: PlistValue;
+  try {
+    preset = parsePlist(fs.readFileSync(filePath));
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to parse iTerm colors file. The file may be corrupted or in an unsupported format. Error: ${errMsg}`);
+  }
+
+  if (!preset || typeof preset !== 'object' || Array.isArray(preset)) {
+    throw new Error('Failed to parse iTerm colors file: expected a dictionary of colors');
+  }
+
+  const dict = preset as Record<string, ItermColorDict | undefined>;
+
+  const getColor = (key: string): string => {
+    const colorDict = dict[key];
+    return colorDict ? itermColorToHex(colorDict) : '#000000';
+  };
+
+  const colors: ThemeColors = {
+    background: getColor('Background Color'),
+    foreground: getColor('Foreground Color'),
+    cursor: getColor('Cursor Color'),
+    cursorText: dict['Cursor Text Color'] ? getColor('Cursor Text Color') : getColor('Background Color'),
+    selection: getColor('Selection Color'),
+    selectionText: dict['Selected Text Color'] ? getColor('Selected Text Color') : getColor('Foreground Color'),
+    ansi: {
+      black: getColor('Ansi 0 Color'),
+      red: getColor('Ansi 1 Color'),
+      green: getColor('Ansi 2 Color'),
+      yellow: getColor('Ansi 3 Color'),
+      blue: getColor('Ansi 4 Color'),
+      magenta: getColor('Ansi 5 Color'),
+      cyan: getColor('Ansi 6 Color'),
+      white: getColor('Ansi 7 Color'),
+      brightBlack: getColor('Ansi 8 Color'),
+      brightRed: getColor('Ansi 9 Color'),
+      brightGreen: getColor('Ansi 10 Color'),
+      brightYellow: getColor('Ansi 11 Color'),
+      brightBlue: getColor('Ansi 12 Color'),
+      brightMagenta: getColor('Ansi 13 Color'),
+      brightCyan: getColor('Ansi 14 Color'),
+      brightWhite: getColor('Ansi 15 Color'),
+    },
+  };
+
+  return { name, colors };
+}
+
+// Terminal.app CursorType values
+const TERMINAL_CURSOR_STYLES: Record<number, ThemeSettings['cursorStyle']> = {
+  0: 'block',
+  1: 'underline',
+  2: 'beam',
+};
+
+// Terminal.app ANSI color key names, in palette order
+const TERMINAL_ANSI_NAMES = ['Black', 'Red', 'Green', 'Yellow', 'Blue', 'Magenta', 'Cyan', 'White'];
+
+// Parse Terminal.app .terminal (XML or binary plist with NSKeyedArchiver colors)
+export function parseTerminalApp(_content: string, filePath: string): ParsedTheme {
+  let profile: PlistValue;
   try {
-    // First check if file exists and is readable
-    if (!fs.existsSync(filePath)) {
-      throw new Error(`File not found: ${filePath}`);
+    profile = parsePlist(fs.readFileSync(filePath));
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to parse Terminal.app profile. Error: ${errMsg}`);
+  }
+
+  if (!profile || typeof profile !== 'object' || Array.isArray(profile) || Buffer.isBuffer(profile)) {
+    throw new Error('Failed to parse Terminal.app profile: expected a dictionary of settings');
+  }
+
+  const dict = profile as Record<string, PlistValue | undefined>;
+  const name = typeof dict.name === 'string' && dict.name ? dict.name : path.basename(filePath, '.terminal');
+
+  const readColor = (key: string): string | null => {
+    const value = dict[key];
+    if (!Buffer.isBuffer(value)) return null;
+    try {
+      return unarchiveColor(value);
+    } catch {
+      return null;
     }
+  };
+
+  const getColor = (key: string, fallback: string): string => readColor(key) || fallback;
+
+  // Terminal.app's own defaults for slots a profile leaves unset
+  const background = getColor('BackgroundColor', '#000000');
+  const foreground = getColor('TextColor', '#ffffff');
+  const defaultAnsi = [
+    '#000000', '#990000', '#00a600', '#999900', '#0000b2', '#b200b2', '#00a6b2', '#bfbfbf',
+    '#666666', '#e50000', '#00d900', '#e5e500', '#0000ff', '#e500e5', '#00e5e5', '#e5e5e5',
+  ];
+
+  const ansi = {} as AnsiColors;
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    const prefix = index < 8 ? 'ANSI' : 'ANSIBright';
+    ansi[key] = getColor(`${prefix}${TERMINAL_ANSI_NAMES[index % 8]}Color`, defaultAnsi[index]);
+  });
+
+  const colors: ThemeColors = {
+    background,
+    foreground,
+    cursor: getColor('CursorColor', '#929292'),
+    cursorText: background,
+    selection: getColor('SelectionColor', '#b2d7ff'),
+    selectionText: foreground,
+    ansi,
+  };
 
-    // Try plutil conversion
+  const settings: ThemeSettings = {};
+
+  let font: ArchivedFont | null = null;
+  if (Buffer.isBuffer(dict.Font)) {
     try {
-      execSync(`plutil -convert json -o "${tempJsonPath}" "${filePath}"`, {
-        encoding: 'utf-8',
-        stdio: ['pipe', 'pipe', 'pipe']
-      });
-    } catch (plutilErr: unknown) {
-      const errMsg = plutilErr instanceof Error ? plutilErr.message : String(plutilErr);
-      throw new Error(`Failed to parse plist file. The file may be corrupted or in an unsupported format. Error: ${errMsg}`);
+      font = unarchiveFont(dict.Font);
+    } catch {
+      // Keep the default font when the archive can't be decoded
     }
+  }
+  if (font) {
+    // PostScript names look like "Menlo-Regular"; keep the family part
+    settings.fontFamily = font.name.replace(/-[A-Za-z]+$/, '');
+    if (font.size > 0) settings.fontSize = font.size;
+  }
 
-    const jsonContent = fs.readFileSync(tempJsonPath, 'utf-8');
-    const plist = JSON.parse(jsonContent);
-    fs.unlinkSync(tempJsonPath);
+  const lineSpacing = Number(dict.FontHeightSpacing);
+  if (Number.isFinite(lineSpacing) && lineSpacing > 0) {
+    settings.lineHeight = lineSpacing;
+  }
 
-    const getColor = (key: string): string => {
-      const colorDict = plist[key];
-      if (!colorDict) return '#000000';
+  if (typeof dict.CursorType === 'number' && TERMINAL_CURSOR_STYLES[dict.CursorType]) {
+    settings.cursorStyle = TERMINAL_CURSOR_STYLES[dict.CursorType];
+  }
 
-      const r = Math.round((colorDict['Red Component'] || 0) * 255);
-      const g = Math.round((colorDict['Green Component'] || 0) * 255);
-      const b = Math.round((colorDict['Blue Component'] || 0) * 255);
+  if (typeof dict.CursorBlink === 'boolean') {
+    settings.cursorBlink = dict.CursorBlink;
+  }
 
-      return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
-    };
+  return { name, colors, settings };
+}
 
-    const colors: ThemeColors = {
-      background: getColor('Background Color'),
-      foreground: getColor('Foreground Color'),
-      cursor: getColor('Cursor Color'),
-      cursorText: getColor('Cursor Text Color') || getColor('Background Color'),
-      selection: getColor('Selection Color'),
-      selectionText: getColor('Selected Text Color') || getColor('Foreground Color'),
-      ansi: {
-        black: getColor('Ansi 0 Color'),
-        red: getColor('Ansi 1 Color'),
-        green: getColor('Ansi 2 Color'),
-        yellow: getColor('Ansi 3 Color'),
-        blue: getColor('Ansi 4 Color'),
-        magenta: getColor('Ansi 5 Color'),
-        cyan: getColor('Ansi 6 Color'),
-        white: getColor('Ansi 7 Color'),
-        brightBlack: getColor('Ansi 8 Color'),
-        brightRed: getColor('Ansi 9 Color'),
-        brightGreen: getColor('Ansi 10 Color'),
-        brightYellow: getColor('Ansi 11 Color'),
-        brightBlue: getColor('Ansi 12 Color'),
-        brightMagenta: getColor('Ansi 13 Color'),
-        brightCyan: getColor('Ansi 14 Color'),
-        brightWhite: getColor('Ansi 15 Color'),
-      },
-    };
+// Alacritty refuses import chains deeper than this
+const ALACRITTY_MAX_IMPORT_DEPTH = 5;
 
-    return { name, colors };
-  } catch (err) {
-    if (fs.existsSync(tempJsonPath)) {
-      fs.unlinkSync(tempJsonPath);
+type ConfigTable = Record<string, unknown>;
+
+function isTable(value: unknown): value is ConfigTable {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Normalize "#rrggbb" or "0xrrggbb" to lowercase "#rrggbb"
+function normalizeHex(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(/^(?:#|0x)([0-9a-fA-F]{6})$/);
+  return match ? `#${match[1].toLowerCase()}` : undefined;
+}
+
+// Merge an imported config under the importing one; indexed colors accumulate
+function mergeConfig(base: ConfigTable, override: ConfigTable): ConfigTable {
+  const result: ConfigTable = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (key === 'indexed_colors' && Array.isArray(value) && Array.isArray(result[key])) {
+      result[key] = [...(result[key] as unknown[]), ...value];
+    } else if (isTable(value) && isTable(result[key])) {
+      result[key] = mergeConfig(result[key] as ConfigTable, value);
+    } else {
+      result[key] = value;
     }
-    throw new Error(`Failed to parse iTerm colors file: ${err}`);
   }
+  return result;
 }
 
-// Parse Terminal.app .terminal (plist XML format)
-export function parseTerminalApp(_filePath: string): ParsedTheme {
-  // Terminal.app stores colors as NSKeyedArchiver data, which requires native parsing
-  // This format is not currently supported for import
-  throw new Error(
-    'Terminal.app (.terminal) format uses NSKeyedArchiver which requires native parsing. ' +
-    'Please export your theme from iTerm2 as .itermcolors instead, or use a different format.'
-  );
+// Parse one Alacritty config file as TOML (0.13+) or legacy YAML
+function parseAlacrittyConfig(content: string, filePath: string): ConfigTable {
+  const ext = path.extname(filePath).toLowerCase();
+  if (ext === '.yml' || ext === '.yaml') {
+    const data = yaml.parse(content);
+    return isTable(data) ? data : {};
+  }
+
+  try {
+    return parseToml(content);
+  } catch (err) {
+    if (ext === '.toml') throw err;
+    const data = yaml.parse(content);
+    return isTable(data) ? data : {};
+  }
 }
 
-// Parse Alacritty YAML format
-export function parseAlacritty(filePath: string): ParsedTheme {
-  const content = fs.readFileSync(filePath, 'utf-8');
-  const name = path.basename(filePath, path.extname(filePath));
+// Load an Alacritty config with its imports applied (later files win)
+function loadAlacrittyConfig(content: string, filePath: string, seen: Set<string>, depth: number): ConfigTable {
+  seen.add(path.resolve(filePath));
+  const config = parseAlacrittyConfig(content, filePath);
 
-  // Simple YAML parser for Alacritty theme format
-  const lines = content.split('\n');
-  const colors: Record<string, string> = {};
+  // 0.14+ nests import under [general]; older configs have it at the top level
+  const general = isTable(config.general) ? config.general : {};
+  const imports = general.import ?? config.import;
+  if (!Array.isArray(imports) || depth >= ALACRITTY_MAX_IMPORT_DEPTH) {
+    return config;
+  }
 
-  let currentSection = '';
-  let inColors = false;
+  let merged: ConfigTable = {};
+  for (const entry of imports) {
+    if (typeof entry !== 'string') continue;
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith('#')) continue;
+    const expanded = entry.startsWith('~') ? path.join(os.homedir(), entry.slice(1)) : entry;
+    const importPath = path.resolve(path.dirname(filePath), expanded);
 
-    // Check for colors section
-    if (trimmed === 'colors:') {
-      inColors = true;
-      continue;
-    }
+    // Alacritty skips missing imports, so do the same
+    if (seen.has(importPath) || !fs.existsSync(importPath)) continue;
 
-    if (!inColors) continue;
+    const imported = loadAlacrittyConfig(fs.readFileSync(importPath, 'utf-8'), importPath, seen, depth + 1);
+    merged = mergeConfig(merged, imported);
+  }
 
-    // Check for subsections
-    if (trimmed.endsWith(':') && !trimmed.includes("'") && !trimmed.includes('"')) {
-      currentSection = trimmed.replace(':', '').trim();
-      continue;
-    }
+  return mergeConfig(merged, config);
+}
 
-    // Parse color values
-    const match = trimmed.match(/^(\w+):\s*['"]?(#?[0-9a-fA-F]{6}|0x[0-9a-fA-F]{6})['"]?/);
-    if (match) {
-      const key = match[1];
-      let value = match[2];
+// Parse Alacritty TOML or legacy YAML config, following import chains
+export function parseAlacritty(content: string, filePath: string): ParsedTheme {
+  const name = path.basename(filePath, path.extname(filePath));
 
-      // Convert 0x format to #
-      if (value.startsWith('0x')) {
-        value = '#' + value.slice(2);
-      }
-      if (!value.startsWith('#')) {
-        value = '#' + value;
-      }
+  let config: ConfigTable;
+  try {
+    config = loadAlacrittyConfig(content, filePath, new Set(), 0);
+  } catch (err) {
+    const errMsg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to parse Alacritty config: ${errMsg}`);
+  }
 
-      const fullKey = currentSection ? `${currentSection}.${key}` : key;
-      colors[fullKey] = value.toLowerCase();
+  const colors = isTable(config.colors) ? config.colors : {};
+
+  // Look up a color by its dotted path under [colors]
+  const lookup = (key: string): string | undefined => {
+    let value: unknown = colors;
+    for (const part of key.split('.')) {
+      value = isTable(value) ? value[part] : undefined;
     }
-  }
+    return normalizeHex(value);
+  };
 
-  // Map Alacritty colors to our format
-  const getColor = (key: string, fallback: string): string => colors[key] || fallback;
+  const getColor = (key: string, fallback: string): string => lookup(key) || fallback;
 
   const themeColors: ThemeColors = {
     background: getColor('primary.background', '#1d1f21'),
@@ -150,7 +298,7 @@ export function parseAlacritty(filePath: string): ParsedTheme {
     cursor: getColor('cursor.cursor', getColor('primary.foreground', '#c5c8c6')),
     cursorText: getColor('cursor.text', getColor('primary.background', '#1d1f21')),
     selection: getColor('selection.background', '#373b41'),
-    selectionText: getColor('selection.foreground', getColor('primary.foreground', '#c5c8c6')),
+    selectionText: getColor('selection.text', getColor('selection.foreground', getColor('primary.foreground', '#c5c8c6'))),
     ansi: {
       black: getColor('normal.black', '#1d1f21'),
       red: getColor('normal.red', '#cc6666'),
@@ -171,12 +319,45 @@ export function parseAlacritty(filePath: string): ParsedTheme {
     },
   };
 
+  const extended: Array<[ExtendedColorKey, string]> = [
+    ['searchMatch', 'search.matches.background'],
+    ['searchMatchText', 'search.matches.foreground'],
+    ['searchFocused', 'search.focused_match.background'],
+    ['searchFocusedText', 'search.focused_match.foreground'],
+    ['hintStart', 'hints.start.background'],
+    ['hintStartText', 'hints.start.foreground'],
+    ['hintEnd', 'hints.end.background'],
+    ['hintEndText', 'hints.end.foreground'],
+  ];
+  for (const [key, colorPath] of extended) {
+    const value = lookup(colorPath);
+    if (value) themeColors[key] = value;
+  }
+
+  const dim: NonNullable<ThemeColors['dim']> = {};
+  for (const key of ANSI_COLOR_KEYS.slice(0, 8) as NormalAnsiKey[]) {
+    const value = lookup(`dim.${key}`);
+    if (value) dim[key] = value;
+  }
+  if (Object.keys(dim).length > 0) themeColors.dim = dim;
+
+  if (Array.isArray(colors.indexed_colors)) {
+    const indexed: Record<number, string> = {};
+    for (const entry of colors.indexed_colors) {
+      const color = isTable(entry) ? normalizeHex(entry.color) : undefined;
+      const index = isTable(entry) ? Number(entry.index) : NaN;
+      if (color && Number.isInteger(index) && index >= 16 && index <= 255) {
+        indexed[index] = color;
+      }
+    }
+    if (Object.keys(indexed).length > 0) themeColors.indexed = indexed;
+  }
+
   return { name, colors: themeColors };
 }
 
 // Parse JSON theme format (generic or iTerm2 Dynamic Profiles)
-export function parseJson(filePath: string): ParsedTheme {
-  const content = fs.readFileSync(filePath, 'utf-8');
+export function parseJson(content: string, filePath: string): ParsedTheme {
   const name = path.basename(filePath, '.json');
   const data = JSON.parse(content);
 
@@ -193,23 +374,17 @@ export function parseJson(filePath: string): ParsedTheme {
     const profile = data.Profiles[0];
 
     const getColor = (key: string): string => {
-      const colorDict = profile[key];
-      if (!colorDict) return '#000000';
-
-      const r = Math.round((colorDict['Red Component'] || 0) * 255);
-      const g = Math.round((colorDict['Green Component'] || 0) * 255);
-      const b = Math.round((colorDict['Blue Component'] || 0) * 255);
-
-      return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+      const colorDict = profile[key] as ItermColorDict | undefined;
+      return colorDict ? itermColorToHex(colorDict) : '#000000';
     };
 
     const colors: ThemeColors = {
       background: getColor('Background Color'),
       foreground: getColor('Foreground Color'),
       cursor: getColor('Cursor Color'),
-      cursorText: getColor('Cursor Text Color') || getColor('Background Color'),
+      cursorText: profile['Cursor Text Color'] ? getColor('Cursor Text Color') : getColor('Background Color'),
       selection: getColor('Selection Color'),
-      selectionText: getColor('Selected Text Color') || getColor('Foreground Color'),
+      selectionText: profile['Selected Text Color'] ? getColor('Selected Text Color') : getColor('Foreground Color'),
       ansi: {
         black: getColor('Ansi 0 Color'),
         red: getColor('Ansi 1 Color'),
@@ -237,8 +412,7 @@ export function parseJson(filePath: string): ParsedTheme {
 }
 
 // Parse Kitty config format
-export function parseKitty(filePath: string): ParsedTheme {
-  const content = fs.readFileSync(filePath, 'utf-8');
+export function parseKitty(content: string, filePath: string): ParsedTheme {
   const name = path.basename(filePath, path.extname(filePath));
 
   const colors: Record<string, string> = {};
@@ -285,23 +459,1527 @@ export function parseKitty(filePath: string): ParsedTheme {
   return { name, colors: themeColors };
 }
 
-// Main parser function that auto-detects format
-export function parseThemeFile(filePath: string): ParsedTheme {
-  const ext = path.extname(filePath).toLowerCase();
+// Parse a WezTerm color scheme (TOML with [colors] and optional [metadata])
+export function parseWezterm(content: string, filePath: string): ParsedTheme {
+  const data: ConfigTable = parseToml(content);
+  const colors = data.colors;
+  if (!isTable(colors) || !Array.isArray(colors.ansi) || !Array.isArray(colors.brights)) {
+    throw new Error('Invalid WezTerm scheme: expected [colors] with ansi and brights');
+  }
+
+  const palette = [...colors.ansi.slice(0, 8), ...colors.brights.slice(0, 8)].map(normalizeHex);
+  if (palette.length < 16 || palette.some(color => !color)) {
+    throw new Error('Invalid WezTerm scheme: ansi and brights need 8 colors each');
+  }
+
+  const ansi = {} as AnsiColors;
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    ansi[key] = palette[index] as string;
+  });
+
+  const background = normalizeHex(colors.background) || ansi.black;
+  const foreground = normalizeHex(colors.foreground) || ansi.white;
+  const themeColors: ThemeColors = {
+    background,
+    foreground,
+    cursor: normalizeHex(colors.cursor_bg) || foreground,
+    cursorText: normalizeHex(colors.cursor_fg) || background,
+    selection: normalizeHex(colors.selection_bg) || ansi.brightBlack,
+    selectionText: normalizeHex(colors.selection_fg) || foreground,
+    ansi,
+  };
+
+  if (isTable(colors.indexed)) {
+    const indexed: Record<number, string> = {};
+    for (const [index, value] of Object.entries(colors.indexed)) {
+      const color = normalizeHex(value);
+      if (color && Number(index) >= 16 && Number(index) <= 255) indexed[Number(index)] = color;
+    }
+    if (Object.keys(indexed).length > 0) themeColors.indexed = indexed;
+  }
+
+  const metadata = isTable(data.metadata) ? data.metadata : {};
+  return {
+    name: typeof metadata.name === 'string' && metadata.name ? metadata.name : path.basename(filePath, path.extname(filePath)),
+    author: typeof metadata.author === 'string' && metadata.author ? metadata.author : undefined,
+    colors: themeColors,
+  };
+}
 
-  switch (ext) {
-    case '.itermcolors':
-      return parseItermColors(filePath);
-    case '.terminal':
-      return parseTerminalApp(filePath);
-    case '.yaml':
-    case '.yml':
-      return parseAlacritty(filePath);
-    case '.json':
-      return parseJson(filePath);
-    case '.conf':
-      return parseKitty(filePath);
-    default:
-      throw new Error(`Unsupported file format: ${ext}`);
+// Ghostty accepts colors with or without the leading #
+function parseGhosttyColor(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  return normalizeHex(value.startsWith('#') ? value : `#${value}`);
+}
+
+// Parse a Ghostty theme file (key = value, with "palette = N=#hex" entries)
+export function parseGhostty(content: string, filePath: string): ParsedTheme {
+  const values = new Map<string, string>();
+  const palette = new Map<number, string>();
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const match = line.match(/^([\w-]+)\s*=\s*(.*)$/);
+    if (!match) continue;
+
+    const [, key, value] = match;
+    if (key === 'palette') {
+      const entry = value.match(/^(\d+)\s*=\s*(\S+)$/);
+      const color = entry && parseGhosttyColor(entry[2]);
+      if (entry && color && Number(entry[1]) <= 255) palette.set(Number(entry[1]), color);
+    } else {
+      values.set(key, value.replace(/^"(.*)"$/, '$1'));
+    }
+  }
+
+  // Ghostty's defaults for anything the theme leaves out
+  const defaults = [
+    '#1d1f21', '#cc6666', '#b5bd68', '#f0c674', '#81a2be', '#b294bb', '#8abeb7', '#c5c8c6',
+    '#666666', '#d54e53', '#b9ca4a', '#e7c547', '#7aa6da', '#c397d8', '#70c0b1', '#eaeaea',
+  ];
+  const ansi = {} as AnsiColors;
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    ansi[key] = palette.get(index) || defaults[index];
+  });
+
+  const background = parseGhosttyColor(values.get('background')) || '#282c34';
+  const foreground = parseGhosttyColor(values.get('foreground')) || '#ffffff';
+  const themeColors: ThemeColors = {
+    background,
+    foreground,
+    cursor: parseGhosttyColor(values.get('cursor-color')) || foreground,
+    cursorText: parseGhosttyColor(values.get('cursor-text')) || background,
+    selection: parseGhosttyColor(values.get('selection-background')) || foreground,
+    selectionText: parseGhosttyColor(values.get('selection-foreground')) || background,
+    ansi,
+  };
+
+  const indexed: Record<number, string> = {};
+  for (const [index, color] of palette) {
+    if (index >= 16) indexed[index] = color;
+  }
+  if (Object.keys(indexed).length > 0) themeColors.indexed = indexed;
+
+  return { name: path.basename(filePath, path.extname(filePath)), colors: themeColors };
+}
+
+// foot's built-in colors, used for keys a theme leaves out
+const FOOT_DEFAULTS = {
+  foreground: '#ffffff',
+  background: '#242424',
+  palette: [
+    '#242424', '#f62b5a', '#47b413', '#e3c401', '#24acd4', '#f2affd', '#13c299', '#e6e6e6',
+    '#616161', '#ff4d51', '#35d450', '#e9e836', '#5dc5f8', '#feabf2', '#24dfc4', '#ffffff',
+  ],
+};
+
+// Parse a foot theme: the [colors] (or [colors-dark]) section of foot.ini or an include file
+export function parseFoot(content: string, filePath: string): ParsedTheme {
+  const values = new Map<string, string>();
+  let inColors = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const section = line.match(/^\[([^\]]+)\]$/);
+    if (section) {
+      inColors = section[1] === 'colors' || section[1] === 'colors-dark';
+      continue;
+    }
+
+    const eq = line.indexOf('=');
+    if (inColors && eq > 0) {
+      values.set(line.slice(0, eq).trim(), line.slice(eq + 1).trim());
+    }
+  }
+
+  const getColor = (key: string) => {
+    const value = values.get(key);
+    return value ? normalizeHex(`#${value.replace(/^#/, '')}`) : undefined;
+  };
+
+  const ansi = {} as AnsiColors;
+  const dim: Partial<Pick<AnsiColors, NormalAnsiKey>> = {};
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    ansi[key] = getColor(`${index < 8 ? 'regular' : 'bright'}${index % 8}`) || FOOT_DEFAULTS.palette[index];
+    const dimColor = index < 8 ? getColor(`dim${index}`) : undefined;
+    if (dimColor) dim[key as NormalAnsiKey] = dimColor;
+  });
+
+  const background = getColor('background') || FOOT_DEFAULTS.background;
+  const foreground = getColor('foreground') || FOOT_DEFAULTS.foreground;
+
+  // cursor=<text color> <cursor color>
+  const [cursorText, cursor] = (values.get('cursor') || '').split(/\s+/).map(color => normalizeHex(`#${color}`));
+
+  const themeColors: ThemeColors = {
+    background,
+    foreground,
+    cursor: cursor || foreground,
+    cursorText: cursorText || background,
+    selection: getColor('selection-background') || foreground,
+    selectionText: getColor('selection-foreground') || background,
+    ansi,
+  };
+  if (Object.keys(dim).length > 0) themeColors.dim = dim;
+
+  const indexed: Record<number, string> = {};
+  for (const key of values.keys()) {
+    const color = /^\d+$/.test(key) && Number(key) >= 16 && Number(key) <= 255 ? getColor(key) : undefined;
+    if (color) indexed[Number(key)] = color;
+  }
+  if (Object.keys(indexed).length > 0) themeColors.indexed = indexed;
+
+  return { name: path.basename(filePath, path.extname(filePath)), colors: themeColors };
+}
+
+// Read a Base16/Base24 scheme's palette; both the tinted-theming format
+// (system/name/palette) and the legacy flat format (scheme/baseXX) are supported
+function readBasePalette(data: ConfigTable): BasePalette {
+  const source = isTable(data.palette) ? data.palette : data;
+  const palette: BasePalette = {};
+
+  for (const key of BASE24_KEYS) {
+    const value = source[key];
+    if (typeof value !== 'string') continue;
+    const match = value.trim().match(/^#?([0-9a-fA-F]{6})$/);
+    if (match) palette[key] = `#${match[1].toLowerCase()}`;
+  }
+
+  return palette;
+}
+
+// Parse Base16 or Base24 scheme YAML
+export function parseBaseScheme(content: string, filePath: string): ParsedTheme {
+  const data = yaml.parse(content);
+  if (!isTable(data)) {
+    throw new Error('Invalid scheme file: expected a YAML mapping');
+  }
+
+  const palette = readBasePalette(data);
+  const missing = BASE16_KEYS.filter(key => !palette[key]);
+  if (missing.length > 0) {
+    throw new Error(`Invalid Base16 scheme: missing ${missing.join(', ')}`);
+  }
+
+  const hasBase24Colors = BASE24_KEYS.every(key => palette[key]);
+  if (data.system === 'base24' && !hasBase24Colors) {
+    throw new Error('Invalid Base24 scheme: missing base10-base17');
+  }
+
+  const system: BaseSystem = data.system === 'base16' || !hasBase24Colors ? 'base16' : 'base24';
+  const schemeName = data.name ?? data.scheme;
+
+  return {
+    name: typeof schemeName === 'string' && schemeName ? schemeName : path.basename(filePath, path.extname(filePath)),
+    author: typeof data.author === 'string' && data.author ? data.author : undefined,
+    colors: paletteToColors(palette, system),
+  };
+}
+
+// Build theme colors from a 16-color palette plus the core colors
+function paletteThemeColors(palette: string[], background: string, foreground: string, cursor?: string): ThemeColors {
+  const ansi = {} as AnsiColors;
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    ansi[key] = palette[index];
+  });
+
+  return {
+    background,
+    foreground,
+    cursor: cursor || foreground,
+    cursorText: background,
+    selection: ansi.brightBlack,
+    selectionText: foreground,
+    ansi,
+  };
+}
+
+// Parse a Gogh theme (YAML from the themes directory, or a JSON entry)
+export function parseGogh(content: string, filePath: string): ParsedTheme {
+  const json = tryParseJson(content);
+  let data: unknown = json ?? yaml.parse(content);
+
+  // themes.json is a list of schemes; import the first one
+  if (Array.isArray(data)) data = data[0];
+  if (!isTable(data)) {
+    throw new Error('Invalid Gogh theme: expected a mapping of colors');
+  }
+
+  const palette: string[] = [];
+  for (let i = 1; i <= 16; i++) {
+    const color = normalizeHex(data[`color_${String(i).padStart(2, '0')}`]);
+    if (!color) {
+      throw new Error(`Invalid Gogh theme: missing color_${String(i).padStart(2, '0')}`);
+    }
+    palette.push(color);
+  }
+
+  const background = normalizeHex(data.background);
+  const foreground = normalizeHex(data.foreground);
+  if (!background || !foreground) {
+    throw new Error('Invalid Gogh theme: missing background or foreground');
+  }
+
+  return {
+    name: typeof data.name === 'string' && data.name ? data.name : path.basename(filePath, path.extname(filePath)),
+    author: typeof data.author === 'string' && data.author ? data.author : undefined,
+    colors: paletteThemeColors(palette, background, foreground, normalizeHex(data.cursor)),
+  };
+}
+
+// Parse a terminal.sexy JSON scheme export
+export function parseTerminalSexy(content: string, filePath: string): ParsedTheme {
+  const data = JSON.parse(content);
+  const palette = Array.isArray(data?.color) ? data.color.map(normalizeHex) : [];
+
+  if (palette.length < 16 || palette.slice(0, 16).some((color: string | undefined) => !color)) {
+    throw new Error('Invalid terminal.sexy scheme: expected 16 colors');
+  }
+
+  const background = normalizeHex(data.background);
+  const foreground = normalizeHex(data.foreground);
+  if (!background || !foreground) {
+    throw new Error('Invalid terminal.sexy scheme: missing background or foreground');
+  }
+
+  return {
+    name: typeof data.name === 'string' && data.name ? data.name : path.basename(filePath, path.extname(filePath)),
+    author: typeof data.author === 'string' && data.author ? data.author : undefined,
+    colors: paletteThemeColors(palette, background, foreground),
+  };
+}
+
+// Read a Warp gradient ({top, bottom} or {left, right}) with normalized colors
+function readWarpGradient(value: unknown): WarpGradient | undefined {
+  if (!isTable(value)) return undefined;
+  const top = normalizeHex(value.top);
+  const bottom = normalizeHex(value.bottom);
+  if (top && bottom) return { top, bottom };
+  const left = normalizeHex(value.left);
+  const right = normalizeHex(value.right);
+  if (left && right) return { left, right };
+  return undefined;
+}
+
+// First stop of a gradient, for places that need one solid color
+function gradientStart(gradient: WarpGradient): string {
+  return 'top' in gradient ? gradient.top : gradient.left;
+}
+
+// Parse a Warp theme (~/.warp/themes/*.yaml)
+export function parseWarp(content: string, filePath: string): ParsedTheme {
+  const data: unknown = yaml.parse(content);
+  const terminalColors = isTable(data) ? data.terminal_colors : undefined;
+  if (!isTable(data) || !isTable(terminalColors) || !isTable(terminalColors.normal) || !isTable(terminalColors.bright)) {
+    throw new Error('Invalid Warp theme: expected terminal_colors.normal and terminal_colors.bright');
+  }
+
+  const warp: WarpMetadata = {};
+
+  // Accent and background may each be a solid color or a gradient
+  const accent = normalizeHex(data.accent) || readWarpGradient(data.accent);
+  if (accent) warp.accent = accent;
+
+  const backgroundGradient = readWarpGradient(data.background);
+  if (backgroundGradient) warp.backgroundGradient = backgroundGradient;
+
+  if (isTable(data.background_image) && typeof data.background_image.path === 'string') {
+    warp.backgroundImage = { path: data.background_image.path };
+    if (typeof data.background_image.opacity === 'number') {
+      warp.backgroundImage.opacity = data.background_image.opacity;
+    }
+  }
+
+  if (data.details === 'darker' || data.details === 'lighter') warp.details = data.details;
+
+  const normal = terminalColors.normal;
+  const bright = terminalColors.bright;
+  const ansi = {} as AnsiColors;
+  ANSI_COLOR_KEYS.slice(0, 8).forEach((key, index) => {
+    const color = normalizeHex(normal[key]);
+    const brightColor = normalizeHex(bright[key]);
+    if (!color || !brightColor) {
+      throw new Error(`Invalid Warp theme: missing ${key} in terminal_colors`);
+    }
+    ansi[key] = color;
+    ansi[ANSI_COLOR_KEYS[index + 8]] = brightColor;
+  });
+
+  const background = normalizeHex(data.background) || (backgroundGradient && gradientStart(backgroundGradient)) || ansi.black;
+  const foreground = normalizeHex(data.foreground) || ansi.white;
+  const accentColor = typeof accent === 'string' ? accent : accent && gradientStart(accent);
+
+  return {
+    name: typeof data.name === 'string' && data.name ? data.name : path.basename(filePath, path.extname(filePath)),
+    colors: {
+      background,
+      foreground,
+      // Warp draws the cursor in the accent color
+      cursor: accentColor || foreground,
+      cursorText: background,
+      selection: ansi.brightBlack,
+      selectionText: foreground,
+      ansi,
+    },
+    settings: Object.keys(warp).length > 0 ? { warp } : undefined,
+  };
+}
+
+// Guard against runaway #include chains
+const XRESOURCES_MAX_INCLUDE_DEPTH = 10;
+
+// X resources that map onto theme colors
+const XRESOURCE_NAMES = new Set([
+  'background', 'foreground', 'cursorColor', 'cursorColor2', 'highlightColor', 'highlightTextColor',
+  ...Array.from({ length: 16 }, (_, i) => `color${i}`),
+]);
+
+// Parse an X color value: #rgb, #rrggbb or rgb:r/g/b with 1-4 hex digits per channel
+function parseXColor(value: string): string | undefined {
+  const hex = value.match(/^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].replace(/./g, c => c + c) : hex[1];
+    return `#${digits.toLowerCase()}`;
+  }
+
+  const rgb = value.match(/^rgb:([0-9a-fA-F]{1,4})\/([0-9a-fA-F]{1,4})\/([0-9a-fA-F]{1,4})$/);
+  if (rgb) {
+    return '#' + rgb.slice(1, 4)
+      .map(channel => Math.round(parseInt(channel, 16) / (16 ** channel.length - 1) * 255).toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  return undefined;
+}
+
+interface XResourceState {
+  defines: Map<string, string>;
+  // Resource name -> value and the number of named components before it
+  resources: Map<string, { value: string; specificity: number }>;
+  seen: Set<string>;
+}
+
+// Read resources from one file, following #include and expanding #define macros
+function readXresources(content: string, filePath: string, state: XResourceState, depth: number): void {
+  state.seen.add(path.resolve(filePath));
+
+  // Join continuation lines first
+  const lines = content.replace(/\\\r?\n/g, '').split(/\r?\n/);
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('!')) continue;
+
+    if (trimmed.startsWith('#')) {
+      const define = trimmed.match(/^#\s*define\s+(\w+)\s+(.*)$/);
+      if (define) {
+        state.defines.set(define[1], define[2].trim());
+        continue;
+      }
+
+      const undef = trimmed.match(/^#\s*undef\s+(\w+)/);
+      if (undef) {
+        state.defines.delete(undef[1]);
+        continue;
+      }
+
+      // Only quoted (relative) includes can be resolved; <system> includes are skipped
+      const include = trimmed.match(/^#\s*include\s+"([^"]+)"/);
+      if (include && depth < XRESOURCES_MAX_INCLUDE_DEPTH) {
+        const expanded = include[1].startsWith('~') ? path.join(os.homedir(), include[1].slice(1)) : include[1];
+        const includePath = path.resolve(path.dirname(filePath), expanded);
+        if (!state.seen.has(includePath) && fs.existsSync(includePath)) {
+          readXresources(fs.readFileSync(includePath, 'utf-8'), includePath, state, depth + 1);
+        }
+      }
+
+      // Other preprocessor directives (#ifdef and friends) are ignored
+      continue;
+    }
+
+    const match = trimmed.match(/^([^:\s]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+
+    // "URxvt*color0", "*.color0" and "XTerm.vt100.background" all end in the resource name
+    const components = match[1].split(/[.*]/).filter(Boolean);
+    const resource = components[components.length - 1];
+    if (!resource || !XRESOURCE_NAMES.has(resource)) continue;
+
+    // Expand macros, allowing defines that refer to other defines
+    let value = match[2].trim();
+    for (let pass = 0; pass < 5; pass++) {
+      const expanded = value.replace(/\b[A-Za-z_]\w*\b/g, token => state.defines.get(token) ?? token);
+      if (expanded === value) break;
+      value = expanded;
+    }
+
+    // Resources naming more components are more specific; later entries win ties
+    const specificity = components.length - 1;
+    const existing = state.resources.get(resource);
+    if (!existing || specificity >= existing.specificity) {
+      state.resources.set(resource, { value, specificity });
+    }
   }
 }
+
+// Parse ~/.Xresources / ~/.Xdefaults (xterm, urxvt and friends)
+export function parseXresources(content: string, filePath: string): ParsedTheme {
+  const baseName = path.basename(filePath, path.extname(filePath)).replace(/^\./, '');
+  const name = baseName || 'Xresources';
+
+  const state: XResourceState = { defines: new Map(), resources: new Map(), seen: new Set() };
+  readXresources(content, filePath, state, 0);
+
+  const colors: Record<string, string> = {};
+  for (const [resource, { value }] of state.resources) {
+    const color = parseXColor(value);
+    if (color) colors[resource] = color;
+  }
+
+  const getColor = (key: string, fallback: string): string => colors[key] || fallback;
+
+  const themeColors: ThemeColors = {
+    background: getColor('background', '#1d1f21'),
+    foreground: getColor('foreground', '#c5c8c6'),
+    cursor: getColor('cursorColor', getColor('foreground', '#c5c8c6')),
+    cursorText: getColor('cursorColor2', getColor('background', '#1d1f21')),
+    selection: getColor('highlightColor', '#373b41'),
+    selectionText: getColor('highlightTextColor', getColor('foreground', '#c5c8c6')),
+    ansi: {
+      black: getColor('color0', '#1d1f21'),
+      red: getColor('color1', '#cc6666'),
+      green: getColor('color2', '#b5bd68'),
+      yellow: getColor('color3', '#f0c674'),
+      blue: getColor('color4', '#81a2be'),
+      magenta: getColor('color5', '#b294bb'),
+      cyan: getColor('color6', '#8abeb7'),
+      white: getColor('color7', '#c5c8c6'),
+      brightBlack: getColor('color8', '#969896'),
+      brightRed: getColor('color9', '#de935f'),
+      brightGreen: getColor('color10', '#b5bd68'),
+      brightYellow: getColor('color11', '#f0c674'),
+      brightBlue: getColor('color12', '#81a2be'),
+      brightMagenta: getColor('color13', '#b294bb'),
+      brightCyan: getColor('color14', '#8abeb7'),
+      brightWhite: getColor('color15', '#ffffff'),
+    },
+  };
+
+  return { name, colors: themeColors };
+}
+
+// Konsole's default palette, used for sections a colorscheme leaves out
+const KONSOLE_DEFAULTS = {
+  background: '#232627',
+  foreground: '#fcfcfc',
+  normal: ['#232627', '#ed1515', '#11d116', '#f67400', '#1d99f3', '#9b59b6', '#1abc9c', '#fcfcfc'],
+  intense: ['#7f8c8d', '#c0392b', '#1cdc9a', '#fdbc4b', '#3daee9', '#8e44ad', '#16a085', '#ffffff'],
+};
+
+// Konsole writes colors as "r,g,b" (sometimes with alpha) but also accepts #rrggbb
+function parseKonsoleColor(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const hex = normalizeHex(value.trim());
+  if (hex) return hex;
+
+  const parts = value.split(',').map(part => Number(part.trim()));
+  if (parts.length < 3 || parts.slice(0, 3).some(part => !Number.isInteger(part) || part < 0 || part > 255)) {
+    return undefined;
+  }
+  return '#' + parts.slice(0, 3).map(part => part.toString(16).padStart(2, '0')).join('');
+}
+
+// Parse a Konsole .colorscheme (INI with one section per color)
+export function parseKonsole(content: string, filePath: string): ParsedTheme {
+  const sections: Record<string, Record<string, string>> = {};
+  let current: Record<string, string> | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+    const header = line.match(/^\[([^\]]+)\]$/);
+    if (header) {
+      current = sections[header[1]] = sections[header[1]] || {};
+      continue;
+    }
+
+    const eq = line.indexOf('=');
+    if (current && eq > 0) {
+      current[line.slice(0, eq).trim()] = line.slice(eq + 1).trim();
+    }
+  }
+
+  const getColor = (section: string) => parseKonsoleColor(sections[section]?.Color);
+
+  const background = getColor('Background') || KONSOLE_DEFAULTS.background;
+  const foreground = getColor('Foreground') || KONSOLE_DEFAULTS.foreground;
+
+  const ansi = {} as AnsiColors;
+  const dim: Partial<Pick<AnsiColors, NormalAnsiKey>> = {};
+  ANSI_COLOR_KEYS.slice(0, 8).forEach((key, index) => {
+    ansi[key] = getColor(`Color${index}`) || KONSOLE_DEFAULTS.normal[index];
+    ansi[ANSI_COLOR_KEYS[index + 8]] = getColor(`Color${index}Intense`) || KONSOLE_DEFAULTS.intense[index];
+
+    const faint = getColor(`Color${index}Faint`);
+    if (faint) dim[key as NormalAnsiKey] = faint;
+  });
+
+  // Konsole has no cursor or selection colors; it inverts the text colors
+  const themeColors: ThemeColors = {
+    background,
+    foreground,
+    cursor: foreground,
+    cursorText: background,
+    selection: foreground,
+    selectionText: background,
+    ansi,
+  };
+  if (Object.keys(dim).length > 0) themeColors.dim = dim;
+
+  const description = sections.General?.Description;
+  return {
+    name: description || path.basename(filePath, path.extname(filePath)),
+    colors: themeColors,
+  };
+}
+
+// Folders Konsole loads colorschemes from: the user's first, then the system's
+function getKonsoleSchemeDirs(): string[] {
+  const dataHome = process.env.XDG_DATA_HOME || path.join(os.homedir(), '.local/share');
+  return [path.join(dataHome, 'konsole'), '/usr/share/konsole'];
+}
+
+/**
+ * Paths of every Konsole .colorscheme in the user and system folders
+ */
+export function findKonsoleColorSchemes(): string[] {
+  return getKonsoleSchemeDirs().flatMap(dir => {
+    try {
+      return fs.readdirSync(dir)
+        .filter(file => file.endsWith('.colorscheme'))
+        .sort()
+        .map(file => path.join(dir, file));
+    } catch {
+      return [];
+    }
+  });
+}
+
+type GVariantValue = string | string[] | boolean | number;
+
+// GNOME Terminal's default Tango palette, used when a profile has none
+const GNOME_TERMINAL_DEFAULTS = {
+  background: '#171421',
+  foreground: '#d0cfcc',
+  palette: [
+    '#2e3436', '#cc0000', '#4e9a06', '#c4a000', '#3465a4', '#75507b', '#06989a', '#d3d7cf',
+    '#555753', '#ef2929', '#8ae234', '#fce94f', '#729fcf', '#ad7fa8', '#34e2e2', '#eeeeec',
+  ],
+};
+
+const GNOME_CURSOR_SHAPES: Record<string, ThemeSettings['cursorStyle']> = {
+  block: 'block',
+  ibeam: 'beam',
+  underline: 'underline',
+};
+
+// Read the quoted strings of a GVariant text value, unescaping each one
+function readGVariantStrings(value: string): string[] {
+  const strings: string[] = [];
+  const pattern = /'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    strings.push((match[1] ?? match[2]).replace(/\\(.)/g, '$1'));
+  }
+  return strings;
+}
+
+// Parse the GVariant values dconf dump writes: strings, string arrays, booleans and numbers
+function parseGVariant(raw: string): GVariantValue | undefined {
+  // Drop type annotations such as "@as []" or "uint32 5"
+  const value = raw.trim().replace(/^(@\w+|u?int(16|32|64)|byte|double)\s+/, '');
+
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (value.startsWith('[')) return readGVariantStrings(value);
+  if (value.startsWith("'") || value.startsWith('"')) return readGVariantStrings(value)[0] ?? '';
+
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+// GDK colors: #rgb, #rrggbb, #rrrrggggbbbb, rgb(r,g,b) or rgba(r,g,b,a)
+function parseGdkColor(value: GVariantValue | undefined): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const color = value.trim();
+
+  const hex = color.match(/^#([0-9a-fA-F]+)$/);
+  if (hex) {
+    const digits = hex[1];
+    if (digits.length % 3 !== 0 || digits.length > 12) return undefined;
+    const width = digits.length / 3;
+    const channels = [0, 1, 2].map(i => digits.slice(i * width, i * width + Math.min(width, 2)).padEnd(2, digits[i * width]));
+    return `#${channels.join('').toLowerCase()}`;
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*[\d.]+\s*)?\)$/);
+  if (rgb) {
+    return '#' + rgb.slice(1, 4).map(channel => Math.min(255, Number(channel)).toString(16).padStart(2, '0')).join('');
+  }
+
+  return undefined;
+}
+
+function gnomeTerminalProfileToTheme(profile: Record<string, GVariantValue>, fallbackName: string): ParsedTheme {
+  const palette = (Array.isArray(profile.palette) ? profile.palette : []).map(parseGdkColor);
+  const ansi = {} as AnsiColors;
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    ansi[key] = palette[index] || GNOME_TERMINAL_DEFAULTS.palette[index];
+  });
+
+  const background = parseGdkColor(profile['background-color']) || GNOME_TERMINAL_DEFAULTS.background;
+  const foreground = parseGdkColor(profile['foreground-color']) || GNOME_TERMINAL_DEFAULTS.foreground;
+
+  // Cursor and highlight colors only apply when their "-colors-set" flag is on
+  const cursorSet = profile['cursor-colors-set'] === true;
+  const highlightSet = profile['highlight-colors-set'] === true;
+  const colors: ThemeColors = {
+    background,
+    foreground,
+    cursor: (cursorSet && parseGdkColor(profile['cursor-background-color'])) || foreground,
+    cursorText: (cursorSet && parseGdkColor(profile['cursor-foreground-color'])) || background,
+    selection: (highlightSet && parseGdkColor(profile['highlight-background-color'])) || foreground,
+    selectionText: (highlightSet && parseGdkColor(profile['highlight-foreground-color'])) || background,
+    ansi,
+  };
+
+  const settings: ThemeSettings = {};
+  const font = profile['use-system-font'] === false && typeof profile.font === 'string'
+    ? profile.font.match(/^(.+?)\s+(\d+(?:\.\d+)?)$/)
+    : null;
+  if (font) {
+    settings.fontFamily = font[1];
+    settings.fontSize = Number(font[2]);
+  }
+  if (typeof profile['cursor-shape'] === 'string' && GNOME_CURSOR_SHAPES[profile['cursor-shape']]) {
+    settings.cursorStyle = GNOME_CURSOR_SHAPES[profile['cursor-shape']];
+  }
+  if (profile['cursor-blink-mode'] === 'on' || profile['cursor-blink-mode'] === 'off') {
+    settings.cursorBlink = profile['cursor-blink-mode'] === 'on';
+  }
+
+  const visibleName = typeof profile['visible-name'] === 'string' ? profile['visible-name'] : '';
+  return {
+    name: visibleName || fallbackName,
+    colors,
+    settings: Object.keys(settings).length > 0 ? settings : undefined,
+    format: 'gnome-terminal',
+  };
+}
+
+/**
+ * Read every profile from `dconf dump /org/gnome/terminal/legacy/profiles:/`
+ * output, one theme per profile
+ */
+export function readGnomeTerminalProfiles(content: string, sourceName = 'GNOME Terminal'): ParsedTheme[] {
+  const profiles: Array<Record<string, GVariantValue>> = [];
+  let current: Record<string, GVariantValue> | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    if (/^\[.*\]$/.test(line)) {
+      current = {};
+      profiles.push(current);
+      continue;
+    }
+
+    const eq = line.indexOf('=');
+    if (current && eq > 0) {
+      const value = parseGVariant(line.slice(eq + 1));
+      if (value !== undefined) current[line.slice(0, eq).trim()] = value;
+    }
+  }
+
+  // The root section only holds the profile list and default; skip it and anything else colorless
+  return profiles
+    .filter(profile => 'visible-name' in profile || 'palette' in profile || 'background-color' in profile)
+    .map(profile => gnomeTerminalProfileToTheme(profile, sourceName));
+}
+
+// Parse a saved dconf dump; for several profiles, the first one
+export function parseGnomeTerminal(content: string, filePath: string): ParsedTheme {
+  const [first] = readGnomeTerminalProfiles(content, path.basename(filePath, path.extname(filePath)));
+  if (!first) {
+    throw new Error('No GNOME Terminal profiles found in dconf dump');
+  }
+  return first;
+}
+
+// XFCE Terminal's built-in colors, used for keys a scheme leaves out
+const XFCE_TERMINAL_DEFAULTS = {
+  foreground: '#ffffff',
+  background: '#000000',
+  palette: [
+    '#000000', '#aa0000', '#00aa00', '#aa5500', '#0000aa', '#aa00aa', '#00aaaa', '#aaaaaa',
+    '#555555', '#ff5555', '#55ff55', '#ffff55', '#5555ff', '#ff55ff', '#55ffff', '#ffffff',
+  ],
+};
+
+// Parse an XFCE Terminal colorscheme ([Scheme]) or terminalrc ([Configuration])
+export function parseXfceTerminal(content: string, filePath: string): ParsedTheme {
+  const values = new Map<string, string>();
+  let inColors = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const section = line.match(/^\[([^\]]+)\]$/);
+    if (section) {
+      inColors = section[1] === 'Scheme' || section[1] === 'Configuration';
+      continue;
+    }
+
+    const eq = line.indexOf('=');
+    if (inColors && eq > 0) {
+      values.set(line.slice(0, eq).trim(), line.slice(eq + 1).trim());
+    }
+  }
+
+  const getColor = (key: string) => parseGdkColor(values.get(key));
+  const palette = (values.get('ColorPalette') || '').split(';').map(color => parseGdkColor(color));
+  const ansi = {} as AnsiColors;
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    ansi[key] = palette[index] || XFCE_TERMINAL_DEFAULTS.palette[index];
+  });
+
+  const background = getColor('ColorBackground') || XFCE_TERMINAL_DEFAULTS.background;
+  const foreground = getColor('ColorForeground') || XFCE_TERMINAL_DEFAULTS.foreground;
+
+  // Cursor and selection colors only apply when their "UseDefault" flag is off
+  const cursorSet = values.get('ColorCursorUseDefault')?.toUpperCase() !== 'TRUE';
+  const selectionSet = values.get('ColorSelectionUseDefault')?.toUpperCase() !== 'TRUE';
+
+  return {
+    name: values.get('Name') || path.basename(filePath, path.extname(filePath)),
+    colors: {
+      background,
+      foreground,
+      cursor: (cursorSet && getColor('ColorCursor')) || foreground,
+      cursorText: (cursorSet && getColor('ColorCursorForeground')) || background,
+      selection: (selectionSet && getColor('ColorSelectionBackground')) || foreground,
+      selectionText: (selectionSet && getColor('ColorSelection')) || background,
+      ansi,
+    },
+  };
+}
+
+// Parse a Tilix color scheme JSON file
+export function parseTilix(content: string, filePath: string): ParsedTheme {
+  const data = JSON.parse(content);
+  if (!isTable(data) || !Array.isArray(data.palette)) {
+    throw new Error('Tilix scheme has no palette');
+  }
+
+  const palette = data.palette.map(color => parseGdkColor(typeof color === 'string' ? color : undefined));
+  const ansi = {} as AnsiColors;
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    ansi[key] = palette[index] || GNOME_TERMINAL_DEFAULTS.palette[index];
+  });
+
+  const getColor = (key: string) => parseGdkColor(typeof data[key] === 'string' ? data[key] as string : undefined);
+  const background = getColor('background-color') || GNOME_TERMINAL_DEFAULTS.background;
+  const foreground = getColor('foreground-color') || GNOME_TERMINAL_DEFAULTS.foreground;
+
+  // Cursor and highlight colors only apply when their "use-" flag is on
+  const cursorSet = data['use-cursor-color'] === true;
+  const highlightSet = data['use-highlight-color'] === true;
+
+  return {
+    name: typeof data.name === 'string' && data.name ? data.name : path.basename(filePath, path.extname(filePath)),
+    colors: {
+      background,
+      foreground,
+      cursor: (cursorSet && getColor('cursor-background-color')) || foreground,
+      cursorText: (cursorSet && getColor('cursor-foreground-color')) || background,
+      selection: (highlightSet && getColor('highlight-background-color')) || foreground,
+      selectionText: (highlightSet && getColor('highlight-foreground-color')) || background,
+      ansi,
+    },
+  };
+}
+
+// Terminator's built-in profile colors
+const TERMINATOR_DEFAULTS = {
+  foreground: '#aaaaaa',
+  background: '#000000',
+  cursor: '#aaaaaa',
+  palette: [
+    '#2e3436', '#cc0000', '#4e9a06', '#c4a000', '#3465a4', '#75507b', '#06989a', '#d3d7cf',
+    '#555753', '#ef2929', '#8ae234', '#fce94f', '#729fcf', '#ad7fa8', '#34e2e2', '#eeeeec',
+  ],
+};
+
+function terminatorProfileToTheme(name: string, profile: Map<string, string>): ParsedTheme {
+  const getColor = (key: string) => parseGdkColor(profile.get(key));
+  const palette = (profile.get('palette') || '').split(':').map(color => parseGdkColor(color));
+  const ansi = {} as AnsiColors;
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    ansi[key] = palette[index] || TERMINATOR_DEFAULTS.palette[index];
+  });
+
+  const background = getColor('background_color') || TERMINATOR_DEFAULTS.background;
+  const foreground = getColor('foreground_color') || TERMINATOR_DEFAULTS.foreground;
+
+  // Terminator 2.1 split cursor_color into cursor_bg_color and cursor_fg_color
+  return {
+    name,
+    colors: {
+      background,
+      foreground,
+      cursor: getColor('cursor_bg_color') || getColor('cursor_color') || TERMINATOR_DEFAULTS.cursor,
+      cursorText: getColor('cursor_fg_color') || background,
+      selection: foreground,
+      selectionText: background,
+      ansi,
+    },
+    format: 'terminator',
+  };
+}
+
+/**
+ * Read every profile with colors from a Terminator config file, one theme per
+ * [[profile]] under [profiles]
+ */
+export function readTerminatorProfiles(content: string): ParsedTheme[] {
+  const profiles: Array<{ name: string; values: Map<string, string> }> = [];
+  let inProfiles = false;
+  let current: Map<string, string> | null = null;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    // ConfigObj nests sections by bracket depth: [profiles], [[name]], [[[child]]]
+    const section = line.match(/^(\[+)\s*"?([^\]"]*)"?\s*\]+$/);
+    if (section) {
+      const depth = section[1].length;
+      if (depth === 1) inProfiles = section[2] === 'profiles';
+      current = null;
+      if (inProfiles && depth === 2) {
+        current = new Map();
+        profiles.push({ name: section[2], values: current });
+      }
+      continue;
+    }
+
+    const eq = line.indexOf('=');
+    if (current && eq > 0) {
+      current.set(line.slice(0, eq).trim(), line.slice(eq + 1).trim().replace(/^(["'])(.*)\1$/, '$2'));
+    }
+  }
+
+  return profiles
+    .filter(({ values }) => values.has('palette') || values.has('background_color') || values.has('foreground_color'))
+    .map(({ name, values }) => terminatorProfileToTheme(name, values));
+}
+
+// Parse a Terminator config; for several profiles, the first one with colors
+export function parseTerminator(content: string): ParsedTheme {
+  const [first] = readTerminatorProfiles(content);
+  if (!first) {
+    throw new Error('No Terminator profiles with colors found');
+  }
+  return first;
+}
+
+// Hyper's built-in colors, used for properties a config leaves out
+const HYPER_DEFAULTS = {
+  foreground: '#ffffff',
+  background: '#000000',
+  cursor: '#f81ce5',
+  palette: [
+    '#000000', '#c51e14', '#1dc121', '#c7c329', '#0a2fc4', '#c839c5', '#20c5c6', '#c7c7c7',
+    '#686868', '#fd6f6b', '#67f86f', '#fffa72', '#6a76fb', '#fd7cfc', '#68fdfe', '#ffffff',
+  ],
+};
+
+// Read the quoted strings of a JS literal, in order
+function readJsStrings(source: string): string[] {
+  return [...source.matchAll(/(['"`])((?:(?!\1)[^\\]|\\.)*)\1/g)].map(match => match[2]);
+}
+
+/**
+ * Parse the color properties of a .hyper.js config. The file is JavaScript, so
+ * it is read with patterns rather than evaluated; the last value of a property
+ * wins, as it would in an object literal.
+ */
+export function parseHyper(content: string, filePath: string): ParsedTheme {
+  const source = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/^\s*\/\/.*$/gm, '');
+
+  const getColor = (property: string) => {
+    const matches = [...source.matchAll(new RegExp(`\\b${property}\\s*:\\s*(['"\`])(.*?)\\1`, 'g'))];
+    return parseGdkColor(matches.at(-1)?.[2]);
+  };
+
+  // colors is an object of named colors or an array of 16
+  const colorsLiteral = [...source.matchAll(/\bcolors\s*:\s*(\{[^}]*\}|\[[^\]]*\])/g)].at(-1)?.[1];
+  if (!colorsLiteral && !getColor('backgroundColor') && !getColor('foregroundColor')) {
+    throw new Error('No Hyper color config found');
+  }
+
+  const ansi = {} as AnsiColors;
+  if (colorsLiteral?.startsWith('[')) {
+    const palette = readJsStrings(colorsLiteral).map(color => parseGdkColor(color));
+    ANSI_COLOR_KEYS.forEach((key, index) => {
+      ansi[key] = palette[index] || HYPER_DEFAULTS.palette[index];
+    });
+  } else {
+    const named = new Map(
+      [...(colorsLiteral || '').matchAll(/['"]?(\w+)['"]?\s*:\s*(['"`])(.*?)\2/g)].map(match => [match[1], parseGdkColor(match[3])])
+    );
+    ANSI_COLOR_KEYS.forEach((key, index) => {
+      ansi[key] = named.get(HYPER_COLOR_NAMES[key]) || HYPER_DEFAULTS.palette[index];
+    });
+  }
+
+  const background = getColor('backgroundColor') || HYPER_DEFAULTS.background;
+  const foreground = getColor('foregroundColor') || HYPER_DEFAULTS.foreground;
+  const baseName = path.basename(filePath, path.extname(filePath)).replace(/^\./, '');
+
+  return {
+    name: baseName === 'hyper' ? 'Hyper' : baseName,
+    colors: {
+      background,
+      foreground,
+      cursor: getColor('cursorColor') || HYPER_DEFAULTS.cursor,
+      cursorText: getColor('cursorAccentColor') || background,
+      selection: getColor('selectionColor') || HYPER_DEFAULTS.cursor,
+      selectionText: foreground,
+      ansi,
+    },
+  };
+}
+
+function isTabbyColorScheme(value: unknown): value is TabbyColorScheme {
+  return isTable(value) && typeof value.foreground === 'string' && typeof value.background === 'string'
+    && Array.isArray(value.colors) && value.colors.length >= 16;
+}
+
+function tabbySchemeToTheme(scheme: TabbyColorScheme, fallbackName: string): ParsedTheme {
+  const colorOrUndefined = (value: unknown) => parseGdkColor(typeof value === 'string' ? value : undefined);
+  const background = colorOrUndefined(scheme.background) || HYPER_DEFAULTS.background;
+  const foreground = colorOrUndefined(scheme.foreground) || HYPER_DEFAULTS.foreground;
+
+  const ansi = {} as AnsiColors;
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    ansi[key] = colorOrUndefined(scheme.colors[index]) || GNOME_TERMINAL_DEFAULTS.palette[index];
+  });
+
+  return {
+    name: typeof scheme.name === 'string' && scheme.name ? scheme.name : fallbackName,
+    colors: {
+      background,
+      foreground,
+      cursor: colorOrUndefined(scheme.cursor) || foreground,
+      cursorText: colorOrUndefined(scheme.cursorForeground) || background,
+      selection: colorOrUndefined(scheme.selection) || foreground,
+      selectionText: colorOrUndefined(scheme.selectionForeground) || background,
+      ansi,
+    },
+    format: 'tabby',
+  };
+}
+
+/**
+ * Read the color schemes from a Tabby config.yaml: the active
+ * `terminal.colorScheme` first, then any `terminal.customColorSchemes`
+ */
+export function readTabbySchemes(content: string, sourceName = 'Tabby'): ParsedTheme[] {
+  const data: unknown = yaml.parse(content);
+  const terminal = isTable(data) && isTable(data.terminal) ? data.terminal : null;
+  if (!terminal) return [];
+
+  const custom = Array.isArray(terminal.customColorSchemes) ? terminal.customColorSchemes : [];
+  return [terminal.colorScheme, ...custom]
+    .filter(isTabbyColorScheme)
+    .map(scheme => tabbySchemeToTheme(scheme, sourceName));
+}
+
+// Parse a Tabby config.yaml; for several schemes, the active one
+export function parseTabby(content: string, filePath: string): ParsedTheme {
+  const [first] = readTabbySchemes(content, path.basename(filePath, path.extname(filePath)));
+  if (!first) {
+    throw new Error('No Tabby color schemes found in config');
+  }
+  return first;
+}
+
+export interface WindowsTerminalScheme {
+  name: string;
+  [key: string]: unknown;
+}
+
+export interface WindowsTerminalSettings {
+  schemes?: WindowsTerminalScheme[];
+  profiles?: { defaults?: Record<string, unknown>; [key: string]: unknown };
+  [key: string]: unknown;
+}
+
+// Windows Terminal's built-in Campbell scheme, used for keys a scheme leaves out
+const CAMPBELL_SCHEME: Record<string, string> = {
+  background: '#0c0c0c',
+  foreground: '#cccccc',
+  cursorColor: '#ffffff',
+  selectionBackground: '#ffffff',
+  black: '#0c0c0c',
+  red: '#c50f1f',
+  green: '#13a10e',
+  yellow: '#c19c00',
+  blue: '#0037da',
+  purple: '#881798',
+  cyan: '#3a96dd',
+  white: '#cccccc',
+  brightBlack: '#767676',
+  brightRed: '#e74856',
+  brightGreen: '#16c60c',
+  brightYellow: '#f9f1a5',
+  brightBlue: '#3b78ff',
+  brightPurple: '#b4009e',
+  brightCyan: '#61d6d6',
+  brightWhite: '#f2f2f2',
+};
+
+// Windows Terminal calls magenta "purple"
+function windowsTerminalKey(key: keyof AnsiColors): string {
+  if (key === 'magenta') return 'purple';
+  if (key === 'brightMagenta') return 'brightPurple';
+  return key;
+}
+
+function isWindowsTerminalScheme(value: unknown): value is WindowsTerminalScheme {
+  return isTable(value) && typeof value.name === 'string' && ('purple' in value || 'brightPurple' in value);
+}
+
+/**
+ * Convert one entry of Windows Terminal's "schemes" array to theme colors
+ */
+export function windowsTerminalSchemeToColors(scheme: WindowsTerminalScheme): ThemeColors {
+  const get = (key: string) => normalizeHex(scheme[key]) || CAMPBELL_SCHEME[key];
+
+  const ansi = {} as AnsiColors;
+  for (const key of ANSI_COLOR_KEYS) {
+    ansi[key] = get(windowsTerminalKey(key));
+  }
+
+  const background = get('background');
+  const foreground = get('foreground');
+
+  return {
+    background,
+    foreground,
+    cursor: get('cursorColor'),
+    cursorText: background,
+    selection: get('selectionBackground'),
+    selectionText: foreground,
+    ansi,
+  };
+}
+
+/**
+ * Read every color scheme from a Windows Terminal settings.json, or from a
+ * file holding a single scheme object
+ */
+export function readWindowsTerminalSchemes(content: string, filePath: string): ParsedTheme[] {
+  const data = parseJsonc(content);
+  const schemes = isTable(data) && Array.isArray(data.schemes) ? data.schemes : [data];
+
+  return schemes.filter(isWindowsTerminalScheme).map(scheme => ({
+    name: scheme.name || path.basename(filePath, path.extname(filePath)),
+    colors: windowsTerminalSchemeToColors(scheme),
+    format: 'windows-terminal' as const,
+  }));
+}
+
+// Parse a Windows Terminal scheme; for a whole settings.json, the first scheme
+export function parseWindowsTerminal(content: string, filePath: string): ParsedTheme {
+  const [first] = readWindowsTerminalSchemes(content, filePath);
+  if (!first) {
+    throw new Error('No Windows Terminal color schemes found');
+  }
+  return first;
+}
+
+// Parse JSON without throwing, for detection
+function tryParseJson(content: string): Record<string, unknown> | null {
+  try {
+    const data = JSON.parse(content);
+    return data && typeof data === 'object' ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+// XML plists contain a <plist> element; binary ones start with a magic header
+function looksLikePlist(content: string): boolean {
+  return content.startsWith('bplist00') || content.includes('<plist');
+}
+
+// Small bonus when the extension matches, so ties go to the expected parser
+function extensionBonus(filename: string, extensions: string[]): number {
+  return extensions.includes(path.extname(filename).toLowerCase()) ? 0.1 : 0;
+}
+
+// Profile section of a dconf dump: [:<uuid>] when dumped from profiles:/,
+// [legacy/profiles:/...] when dumped from /org/gnome/terminal/
+const GNOME_PROFILE_HEADER = /^\s*\[(?::[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|legacy\/profiles:\/[^\]]*)\]\s*$/im;
+
+// Parser registry, checked in order (earlier parsers win ties)
+const PARSERS: ThemeParser[] = [
+  {
+    format: 'iterm2',
+    label: 'iTerm2 Color Preset',
+    extensions: ['.itermcolors'],
+    detect(content, filename) {
+      if (!looksLikePlist(content)) return 0;
+      if (content.includes('Ansi 0 Color')) return 0.9 + extensionBonus(filename, this.extensions);
+      return extensionBonus(filename, this.extensions) * 3;
+    },
+    parse: parseItermColors,
+  },
+  {
+    format: 'terminal',
+    label: 'Terminal.app Profile',
+    extensions: ['.terminal'],
+    detect(content, filename) {
+      if (!looksLikePlist(content)) return 0;
+      if (content.includes('ANSIBlackColor') || content.includes('Window Settings')) {
+        return 0.9 + extensionBonus(filename, this.extensions);
+      }
+      return extensionBonus(filename, this.extensions) * 3;
+    },
+    parse: parseTerminalApp,
+  },
+  {
+    format: 'json',
+    label: 'ShellShade JSON',
+    extensions: ['.json'],
+    detect(content, filename) {
+      const data = tryParseJson(content);
+      const colors = data?.colors as Record<string, unknown> | undefined;
+      if (!colors || typeof colors.ansi !== 'object') return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseJson,
+  },
+  {
+    format: 'iterm2-json',
+    label: 'iTerm2 Dynamic Profile',
+    extensions: ['.json'],
+    detect(content, filename) {
+      const data = tryParseJson(content);
+      const profiles = data?.Profiles;
+      if (!Array.isArray(profiles) || profiles.length === 0) return 0;
+      const hasColors = profiles.some(p => p && typeof p === 'object' && 'Ansi 0 Color' in p);
+      return (hasColors ? 0.9 : 0.5) + extensionBonus(filename, this.extensions);
+    },
+    parse: parseJson,
+  },
+  {
+    format: 'terminal-sexy',
+    label: 'terminal.sexy Scheme',
+    extensions: ['.json'],
+    detect(content, filename) {
+      const data = tryParseJson(content);
+      if (!Array.isArray(data?.color) || data.color.length < 16) return 0;
+      if (typeof data.background !== 'string' || typeof data.foreground !== 'string') return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseTerminalSexy,
+  },
+  {
+    format: 'windows-terminal',
+    label: 'Windows Terminal Scheme',
+    extensions: ['.json'],
+    detect(content, filename) {
+      let data: unknown;
+      try {
+        data = parseJsonc(content);
+      } catch {
+        return 0;
+      }
+      const schemes = isTable(data) && Array.isArray(data.schemes) ? data.schemes : [data];
+      if (!schemes.some(isWindowsTerminalScheme)) return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseWindowsTerminal,
+  },
+  {
+    format: 'warp',
+    label: 'Warp Theme',
+    extensions: ['.yaml', '.yml'],
+    detect(content, filename) {
+      if (!/^terminal_colors:\s*$/m.test(content)) return 0;
+      if (!/^\s+normal:\s*$/m.test(content) || !/^\s+bright:\s*$/m.test(content)) return 0.5;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseWarp,
+  },
+  {
+    format: 'gogh',
+    label: 'Gogh Theme',
+    extensions: ['.yml', '.yaml', '.json'],
+    detect(content, filename) {
+      const matches = content.match(/\bcolor_(0[1-9]|1[0-6])["']?\s*:/g);
+      if (!matches || matches.length < 16) return 0;
+      if (!/\bbackground["']?\s*:/.test(content)) return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseGogh,
+  },
+  {
+    format: 'xresources',
+    label: 'Xresources',
+    extensions: ['.xresources', '.xdefaults'],
+    detect(content, filename) {
+      const matches = content.match(/^\s*[\w.*-]*[.*](color\d{1,2}|background|foreground|cursorColor)\s*:/gm);
+      const basename = filename.toLowerCase();
+      const named = basename.includes('xresources') || basename.includes('xdefaults') ? 0.1 : 0;
+      if (!matches || matches.length < 3) return named * 3;
+      return Math.min(0.9, 0.5 + matches.length * 0.025) + named;
+    },
+    parse: parseXresources,
+  },
+  {
+    format: 'konsole',
+    label: 'Konsole Color Scheme',
+    extensions: ['.colorscheme'],
+    detect(content, filename) {
+      const sections = content.match(/^\s*\[(Background|Foreground|Color[0-7](Intense|Faint)?)\]\s*$/gm);
+      if (!sections || sections.length < 3) return extensionBonus(filename, this.extensions) * 3;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseKonsole,
+  },
+  {
+    format: 'gnome-terminal',
+    label: 'GNOME Terminal (dconf dump)',
+    extensions: ['.dconf', '.ini'],
+    detect(content, filename) {
+      if (!GNOME_PROFILE_HEADER.test(content)) return 0;
+      if (!/^\s*(palette|visible-name|background-color)\s*=/m.test(content)) return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseGnomeTerminal,
+  },
+  {
+    format: 'alacritty',
+    label: 'Alacritty',
+    extensions: ['.toml', '.yml', '.yaml'],
+    detect(content, filename) {
+      const sections = ['primary', 'normal', 'bright', 'dim', 'cursor', 'selection'];
+
+      // TOML: [colors.primary] tables
+      const tables = sections.filter(section => new RegExp(`^\\[colors\\.${section}\\]\\s*$`, 'm').test(content));
+      if (tables.length > 0) {
+        return Math.min(0.9, 0.5 + tables.length * 0.1) + extensionBonus(filename, this.extensions);
+      }
+
+      // Legacy YAML: colors: with indented subsections
+      if (!/^colors:\s*$/m.test(content)) return 0;
+      const found = sections.filter(section => new RegExp(`^\\s+${section}:\\s*$`, 'm').test(content));
+      if (found.length === 0) return 0;
+      return Math.min(0.9, 0.5 + found.length * 0.1) + extensionBonus(filename, this.extensions);
+    },
+    parse: parseAlacritty,
+  },
+  {
+    format: 'base16',
+    label: 'Base16 Scheme',
+    extensions: ['.yaml', '.yml'],
+    detect(content, filename) {
+      const keys = BASE16_KEYS.filter(key => new RegExp(`^\\s*${key}:\\s*["']?#?[0-9a-fA-F]{6}`, 'm').test(content));
+      if (keys.length < BASE16_KEYS.length) return 0;
+      if (/^\s*base1[0-7]:/m.test(content) && !/^system:\s*["']?base16/m.test(content)) return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseBaseScheme,
+  },
+  {
+    format: 'base24',
+    label: 'Base24 Scheme',
+    extensions: ['.yaml', '.yml'],
+    detect(content, filename) {
+      const keys = BASE24_KEYS.filter(key => new RegExp(`^\\s*${key}:\\s*["']?#?[0-9a-fA-F]{6}`, 'm').test(content));
+      if (keys.length < BASE24_KEYS.length || /^system:\s*["']?base16/m.test(content)) return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseBaseScheme,
+  },
+  {
+    format: 'kitty',
+    label: 'Kitty',
+    extensions: ['.conf'],
+    detect(content, filename) {
+      const matches = content.match(/^\s*(color\d{1,3}|foreground|background|cursor|selection_(?:fore|back)ground)\s+#[0-9a-fA-F]{6}\b/gm);
+      if (!matches || matches.length < 3) return 0;
+      return Math.min(0.9, 0.4 + matches.length * 0.025) + extensionBonus(filename, this.extensions);
+    },
+    parse: parseKitty,
+  },
+  {
+    format: 'wezterm',
+    label: 'WezTerm Color Scheme',
+    extensions: ['.toml'],
+    detect(content, filename) {
+      if (!/^\[colors\]\s*$/m.test(content)) return 0;
+      if (!/^\s*ansi\s*=\s*\[/m.test(content) || !/^\s*brights\s*=\s*\[/m.test(content)) return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseWezterm,
+  },
+  {
+    format: 'ghostty',
+    label: 'Ghostty Theme',
+    extensions: ['.ghostty'],
+    detect(content, filename) {
+      const matches = content.match(/^\s*palette\s*=\s*\d{1,3}\s*=/gm);
+      if (!matches || matches.length < 3) return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseGhostty,
+  },
+  {
+    format: 'foot',
+    label: 'foot Theme',
+    extensions: ['.ini'],
+    detect(content, filename) {
+      if (!/^\[colors(-dark)?\]\s*$/m.test(content)) return 0;
+      const matches = content.match(/^\s*(regular|bright)[0-7]\s*=/gm);
+      if (!matches || matches.length < 3) return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseFoot,
+  },
+  {
+    format: 'hyper',
+    label: 'Hyper Config',
+    extensions: ['.js'],
+    detect(content, filename) {
+      if (!content.includes('module.exports')) return 0;
+      if (!/\b(backgroundColor|foregroundColor|colors)\s*:/.test(content)) return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseHyper,
+  },
+  {
+    format: 'tabby',
+    label: 'Tabby Config',
+    extensions: ['.yaml', '.yml'],
+    detect(content, filename) {
+      if (!/^terminal:/m.test(content) || !/^\s+colorScheme:/m.test(content)) return 0;
+      try {
+        if (readTabbySchemes(content).length === 0) return 0;
+      } catch {
+        return 0;
+      }
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseTabby,
+  },
+  {
+    format: 'xfce4-terminal',
+    label: 'XFCE Terminal Colorscheme',
+    extensions: ['.theme'],
+    detect(content, filename) {
+      if (!/^\s*ColorPalette\s*=/m.test(content)) return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseXfceTerminal,
+  },
+  {
+    format: 'tilix',
+    label: 'Tilix Scheme',
+    extensions: ['.json'],
+    detect(content, filename) {
+      const data = tryParseJson(content);
+      if (!data || !Array.isArray(data.palette) || !('background-color' in data || 'foreground-color' in data)) return 0;
+      return 0.9 + extensionBonus(filename, this.extensions);
+    },
+    parse: parseTilix,
+  },
+  {
+    format: 'terminator',
+    label: 'Terminator Config',
+    extensions: ['.config'],
+    detect(content, filename) {
+      if (!/^\s*\[profiles\]\s*$/m.test(content)) return 0;
+      if (!/^\s*(palette|background_color|foreground_color)\s*=/m.test(content)) return 0;
+      // ~/.config/terminator/config has no extension; [[profile]] subsections are Terminator's own
+      const ownFile = path.basename(filename) === 'config' || /^\s*\[\[[^\]]+\]\]\s*$/m.test(content);
+      return 0.9 + (ownFile ? 0.1 : extensionBonus(filename, this.extensions));
+    },
+    parse: parseTerminator,
+  },
+];
+
+/**
+ * All registered import parsers
+ */
+export function listParsers(): ThemeParser[] {
+  return [...PARSERS];
+}
+
+/**
+ * Score every parser against the content, best match first.
+ * Parsers that do not recognize the content are left out.
+ */
+export function detectFormats(content: string, filename: string): DetectedFormat[] {
+  return PARSERS
+    .map(parser => ({
+      format: parser.format,
+      label: parser.label,
+      confidence: Math.round(Math.min(1, parser.detect(content, filename)) * 100) / 100,
+    }))
+    .filter(result => result.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Detect the candidate formats of a theme file on disk
+ */
+export function detectThemeFileFormats(filePath: string): DetectedFormat[] {
+  const content = fs.readFileSync(filePath, 'utf-8');
+  return detectFormats(content, path.basename(filePath));
+}
+
+// Main parser function: uses the best detected format unless one is given
+export function parseThemeFile(filePath: string, format?: ThemeFormat): ParsedTheme {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`File not found: ${filePath}`);
+  }
+
+  const content = fs.readFileSync(filePath, 'utf-8');
+
+  let parser: ThemeParser | undefined;
+  if (format) {
+    parser = PARSERS.find(p => p.format === format);
+    if (!parser) {
+      throw new Error(`No importer available for format: ${format}`);
+    }
+  } else {
+    const [best] = detectFormats(content, path.basename(filePath));
+    parser = best && PARSERS.find(p => p.format === best.format);
+    if (!parser) {
+      throw new Error(`Unrecognized theme format: ${path.basename(filePath)}`);
+    }
+  }
+
+  return { ...parser.parse(content, filePath), format: parser.format };
+}
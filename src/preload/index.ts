@@ -19,9 +19,18 @@ const api: IpcApi = {
   },
 
   files: {
-    import: (path?: string) => ipcRenderer.invoke(IPC_CHANNELS.FILES_IMPORT, path),
+    import: (path?: string, format?) => ipcRenderer.invoke(IPC_CHANNELS.FILES_IMPORT, path, format),
+    chooseImportFile: () => ipcRenderer.invoke(IPC_CHANNELS.FILES_CHOOSE_IMPORT),
     export: (themeId: string, format, path?: string) => ipcRenderer.invoke(IPC_CHANNELS.FILES_EXPORT, themeId, format, path),
-    dragImport: (filePath: string) => ipcRenderer.invoke(IPC_CHANNELS.FILES_DRAG_IMPORT, filePath),
+    dragImport: (filePath: string, format?) => ipcRenderer.invoke(IPC_CHANNELS.FILES_DRAG_IMPORT, filePath, format),
+    detectFormat: (filePath: string) => ipcRenderer.invoke(IPC_CHANNELS.FILES_DETECT_FORMAT, filePath),
+    listWindowsTerminalSchemes: () => ipcRenderer.invoke(IPC_CHANNELS.FILES_LIST_WINDOWS_TERMINAL_SCHEMES),
+    importWindowsTerminalSchemes: (names?: string[]) => ipcRenderer.invoke(IPC_CHANNELS.FILES_IMPORT_WINDOWS_TERMINAL_SCHEMES, names),
+    listKonsoleSchemes: () => ipcRenderer.invoke(IPC_CHANNELS.FILES_LIST_KONSOLE_SCHEMES),
+    importKonsoleSchemes: (paths?: string[]) => ipcRenderer.invoke(IPC_CHANNELS.FILES_IMPORT_KONSOLE_SCHEMES, paths),
+    listGnomeTerminalProfiles: (dumpPath?: string) => ipcRenderer.invoke(IPC_CHANNELS.FILES_LIST_GNOME_TERMINAL_PROFILES, dumpPath),
+    importGnomeTerminalProfiles: (names?: string[], dumpPath?: string) =>
+      ipcRenderer.invoke(IPC_CHANNELS.FILES_IMPORT_GNOME_TERMINAL_PROFILES, names, dumpPath),
   },
 
   install: {
@@ -30,6 +39,7 @@ const api: IpcApi = {
     toWindowsTerminal: (themeId: string) => ipcRenderer.invoke(IPC_CHANNELS.INSTALL_WINDOWS_TERMINAL, themeId),
     toAlacritty: (themeId: string) => ipcRenderer.invoke(IPC_CHANNELS.INSTALL_ALACRITTY, themeId),
     toKitty: (themeId: string) => ipcRenderer.invoke(IPC_CHANNELS.INSTALL_KITTY, themeId),
+    toGhostty: (themeId: string) => ipcRenderer.invoke(IPC_CHANNELS.INSTALL_GHOSTTY, themeId),
     setTerminalDefault: (themeId: string) => ipcRenderer.invoke('install:set-terminal-default', themeId),
     detectInstalled: () => ipcRenderer.invoke(IPC_CHANNELS.INSTALL_DETECT),
   },
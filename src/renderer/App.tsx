@@ -2,7 +2,8 @@ import React, { useState, useEffect } from 'react';
 import Layout from './components/layout/Layout';
 import Sidebar from './components/layout/Sidebar';
 import ThemeEditor from './components/editor/ThemeEditor';
-import type { Theme, ThemeSummary } from '../shared/types/theme';
+import type { Theme, ThemeFormat, ThemeSummary } from '../shared/types/theme';
+import type { DetectedFormat } from '../shared/types/ipc';
 
 type View = 'library' | 'editor' | 'settings';
 
@@ -10,6 +11,13 @@ type Platform = 'darwin' | 'win32' | 'linux';
 
 type ThemeFilter = 'all' | 'dark' | 'light';
 
+// A picked file waiting for its format to be confirmed
+interface PendingImport {
+  path: string;
+  candidates: DetectedFormat[];
+  format: ThemeFormat;
+}
+
 // Check if a hex color is dark (luminance < 0.5)
 const isColorDark = (hex: string): boolean => {
   const r = parseInt(hex.slice(1, 3), 16) / 255;
@@ -28,6 +36,7 @@ const App: React.FC = () => {
   const [platform, setPlatform] = useState<Platform>('darwin');
   const [appVersion, setAppVersion] = useState('0.0.0');
   const [themeFilter, setThemeFilter] = useState<ThemeFilter>('all');
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
 
   useEffect(() => {
     loadThemes();
@@ -152,11 +161,16 @@ const App: React.FC = () => {
   const handleImport = async () => {
     try {
       if (window.api) {
-        const result = await window.api.files.import();
-        if (result) {
-          await loadThemes();
-          alert(`Successfully imported "${result.name}"!`);
+        const path = await window.api.files.chooseImportFile();
+        if (!path) return;
+
+        const candidates = await window.api.files.detectFormat(path);
+        if (candidates.length === 0) {
+          alert('Import failed: unrecognized theme file format');
+          return;
         }
+
+        setPendingImport({ path, candidates, format: candidates[0].format });
       }
     } catch (err) {
       console.error('Import failed:', err);
@@ -165,7 +179,79 @@ const App: React.FC = () => {
     }
   };
 
-  const handleApplyTheme = async (themeId: string, target: 'iterm2' | 'terminal' | 'terminal-default' | 'windows-terminal' | 'alacritty' | 'kitty' | 'auto') => {
+  // Import the picked file with the format confirmed (or overridden) in the dialog
+  const handleConfirmImport = async () => {
+    if (!pendingImport || !window.api) return;
+    const { path, candidates, format } = pendingImport;
+    setPendingImport(null);
+
+    try {
+      const result = await window.api.files.import(path, format);
+      await loadThemes();
+      const label = candidates.find(candidate => candidate.format === format)?.label ?? format;
+      alert(`Successfully imported "${result.name}" as ${label}!`);
+    } catch (err) {
+      console.error('Import failed:', err);
+      const message = err instanceof Error ? err.message : String(err);
+      alert(`Import failed: ${message}`);
+    }
+  };
+
+  // Bulk-import the schemes another terminal already has installed
+  const importInstalledSchemes = async (
+    source: string,
+    list: () => Promise<Array<{ name: string }>>,
+    importAll: () => Promise<Theme[]>
+  ) => {
+    try {
+      const schemes = await list();
+      if (schemes.length === 0) {
+        alert(`No color schemes found for ${source}.`);
+        return;
+      }
+
+      const names = schemes.map(scheme => scheme.name).join(', ');
+      if (!confirm(`Import ${schemes.length} color scheme(s) from ${source}?\n\n${names}`)) {
+        return;
+      }
+
+      const imported = await importAll();
+      await loadThemes();
+      alert(`Successfully imported ${imported.length} scheme(s) from ${source}!`);
+    } catch (err) {
+      console.error(`${source} import failed:`, err);
+      const message = err instanceof Error ? err.message : String(err);
+      alert(`Import failed: ${message}`);
+    }
+  };
+
+  // Terminals whose installed schemes can be pulled in on this platform
+  const installedImports = (() => {
+    const files = window.api?.files;
+    if (!files) return [];
+
+    if (platform === 'win32') {
+      return [{
+        label: 'From Windows Terminal',
+        onImport: () => importInstalledSchemes('Windows Terminal', files.listWindowsTerminalSchemes, () => files.importWindowsTerminalSchemes()),
+      }];
+    }
+    if (platform === 'linux') {
+      return [
+        {
+          label: 'From GNOME Terminal',
+          onImport: () => importInstalledSchemes('GNOME Terminal', () => files.listGnomeTerminalProfiles(), () => files.importGnomeTerminalProfiles()),
+        },
+        {
+          label: 'From Konsole',
+          onImport: () => importInstalledSchemes('Konsole', files.listKonsoleSchemes, () => files.importKonsoleSchemes()),
+        },
+      ];
+    }
+    return [];
+  })();
+
+  const handleApplyTheme = async (themeId: string, target: 'iterm2' | 'terminal' | 'terminal-default' | 'windows-terminal' | 'alacritty' | 'kitty' | 'ghostty' | 'auto') => {
     try {
       if (window.api) {
         let result;
@@ -198,6 +284,9 @@ const App: React.FC = () => {
           case 'kitty':
             result = await window.api.install.toKitty(themeId);
             break;
+          case 'ghostty':
+            result = await window.api.install.toGhostty(themeId);
+            break;
           case 'terminal':
           default:
             result = await window.api.install.toTerminalApp(themeId);
@@ -458,6 +547,7 @@ const App: React.FC = () => {
             onViewChange={setCurrentView}
             onNewTheme={handleNewTheme}
             onImport={handleImport}
+            installedImports={installedImports}
             version={appVersion}
           />
         )}
@@ -465,6 +555,47 @@ const App: React.FC = () => {
         {/* Main content */}
         <Layout>{renderContent()}</Layout>
       </div>
+
+      {/* Import format confirmation */}
+      {pendingImport && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50" style={noDragStyle}>
+          <div className="w-96 bg-surface-secondary/95 backdrop-blur-glass rounded-2xl border border-white/10 p-6 shadow-glass-lg">
+            <h3 className="font-medium text-white/90 mb-1">Import Theme</h3>
+            <p className="text-sm text-white/40 mb-4 truncate" title={pendingImport.path}>
+              {pendingImport.path.split(/[\\/]/).pop()}
+            </p>
+            <label className="block text-sm text-white/60 mb-2" htmlFor="import-format">Format</label>
+            <select
+              id="import-format"
+              value={pendingImport.format}
+              onChange={(e) => setPendingImport({ ...pendingImport, format: e.target.value as ThemeFormat })}
+              className="w-full mb-6 px-3 py-2 bg-surface-tertiary rounded-lg border border-white/10 text-sm text-white/90"
+            >
+              {pendingImport.candidates.map(candidate => (
+                <option key={candidate.format} value={candidate.format}>
+                  {candidate.label} ({Math.round(candidate.confidence * 100)}%)
+                </option>
+              ))}
+            </select>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setPendingImport(null)}
+                className="px-4 py-2 rounded-lg text-sm text-white/60 hover:text-white hover:bg-white/5 cursor-pointer transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirmImport}
+                className="px-4 py-2 bg-accent hover:bg-accent-hover rounded-lg text-sm font-medium cursor-pointer transition-all"
+              >
+                Import
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -7,7 +7,7 @@ interface ThemeEditorProps {
   theme: Theme | null;
   onSave: (theme: Partial<Theme>) => void;
   onCancel: () => void;
-  onApply?: (themeId: string, target: 'iterm2' | 'terminal' | 'terminal-default' | 'windows-terminal' | 'alacritty' | 'kitty' | 'auto') => void;
+  onApply?: (themeId: string, target: 'iterm2' | 'terminal' | 'terminal-default' | 'windows-terminal' | 'alacritty' | 'kitty' | 'ghostty' | 'auto') => void;
   isNew?: boolean;
 }
 
@@ -228,7 +228,7 @@ const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onSave, onCancel, onAp
                 </div>
                 <div>
                   <label className="block text-xs text-white/40 mb-1.5">
-                    Font Size: {settings.fontSize}px
+                    Font Size: {settings.fontSize || 13}px
                   </label>
                   <input
                     type="range"
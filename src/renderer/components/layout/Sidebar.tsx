@@ -6,10 +6,12 @@ interface SidebarProps {
   onViewChange?: (view: View) => void;
   onNewTheme?: () => void;
   onImport?: () => void;
+  // Bulk imports from terminals installed on this platform
+  installedImports?: { label: string; onImport: () => void }[];
   version?: string;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ onViewChange, onNewTheme, onImport, version = '0.0.0' }) => {
+const Sidebar: React.FC<SidebarProps> = ({ onViewChange, onNewTheme, onImport, installedImports = [], version = '0.0.0' }) => {
   const [activeView, setActiveView] = useState<View>('library');
 
   const navItems: { id: View; label: string; icon: React.ReactNode }[] = [
@@ -130,6 +132,20 @@ const Sidebar: React.FC<SidebarProps> = ({ onViewChange, onNewTheme, onImport, v
               </svg>
               Import
             </button>
+            {installedImports.map(source => (
+              <button
+                key={source.label}
+                type="button"
+                onClick={source.onImport}
+                style={noDragStyle}
+                className="w-full px-3 py-2 text-left text-sm text-white/50 hover:text-white hover:bg-white/5 rounded-xl transition-all duration-200 cursor-pointer flex items-center gap-2"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 9l3 3-3 3m5 0h3M5 20h14a2 2 0 002-2V6a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                </svg>
+                {source.label}
+              </button>
+            ))}
           </div>
         </div>
       </nav>
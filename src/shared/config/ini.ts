@@ -0,0 +1,100 @@
+/**
+ * Line-based edits to INI-style config files that keep everything ShellShade
+ * does not touch (comments, ordering, other sections) exactly as written.
+ */
+
+function sectionName(line: string, depth: number): string | null {
+  const match = line.trim().match(/^(\[+)\s*"?([^\]"]*)"?\s*\]+$/);
+  return match && match[1].length === depth ? match[2] : null;
+}
+
+function isSectionHeader(line: string, maxDepth: number): boolean {
+  const match = line.trim().match(/^(\[+)[^[]/);
+  return !!match && match[1].length <= maxDepth;
+}
+
+// Step back over blank lines so new entries go right after the last one
+function trimTrailingBlank(lines: string[], start: number, end: number): number {
+  while (end > start && !lines[end - 1].trim()) end--;
+  return end;
+}
+
+/**
+ * Value of a key in an INI section, or undefined when either is missing
+ */
+export function getIniValue(content: string, section: string, key: string): string | undefined {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => sectionName(line, 1) === section);
+  if (start === -1) return undefined;
+
+  for (let i = start + 1; i < lines.length && !isSectionHeader(lines[i], 1); i++) {
+    const eq = lines[i].indexOf('=');
+    if (eq > 0 && lines[i].slice(0, eq).trim() === key) {
+      return lines[i].slice(eq + 1).trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Set keys in an INI section, replacing existing values in place and adding
+ * missing keys at the end of the section. The section is created if needed.
+ */
+export function setIniValues(content: string, section: string, values: Record<string, string>): string {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => sectionName(line, 1) === section);
+
+  if (start === -1) {
+    const trimmed = content.replace(/\s+$/, '');
+    const entries = Object.entries(values).map(([key, value]) => `${key}=${value}`);
+    return `${trimmed ? `${trimmed}\n\n` : ''}[${section}]\n${entries.join('\n')}\n`;
+  }
+
+  let end = lines.findIndex((line, index) => index > start && isSectionHeader(line, 1));
+  if (end === -1) end = lines.length;
+
+  const missing = new Map(Object.entries(values));
+  for (let i = start + 1; i < end; i++) {
+    const eq = lines[i].indexOf('=');
+    const key = eq > 0 ? lines[i].slice(0, eq).trim() : '';
+    if (missing.has(key)) {
+      // Keep the line's own indentation and spacing around '='
+      lines[i] = lines[i].replace(/^([^=]*=\s*).*$/, (_, prefix: string) => `${prefix}${missing.get(key)}`);
+      missing.delete(key);
+    }
+  }
+
+  const insertAt = trimTrailingBlank(lines, start + 1, end);
+  lines.splice(insertAt, 0, ...[...missing].map(([key, value]) => `${key}=${value}`));
+  return lines.join('\n');
+}
+
+/**
+ * Replace a [[subsection]] of a nested (ConfigObj-style) config, or add it at
+ * the end of its [section]. `body` is the subsection including its header.
+ */
+export function upsertIniSubsection(content: string, section: string, subsection: string, body: string): string {
+  const lines = content.split('\n');
+  const bodyLines = body.replace(/\s+$/, '').split('\n');
+  const start = lines.findIndex(line => sectionName(line, 1) === section);
+
+  if (start === -1) {
+    const trimmed = content.replace(/\s+$/, '');
+    return `${trimmed ? `${trimmed}\n` : ''}[${section}]\n${bodyLines.join('\n')}\n`;
+  }
+
+  let end = lines.findIndex((line, index) => index > start && isSectionHeader(line, 1));
+  if (end === -1) end = lines.length;
+
+  const subStart = lines.findIndex((line, index) => index > start && index < end && sectionName(line, 2) === subsection);
+  if (subStart === -1) {
+    lines.splice(trimTrailingBlank(lines, start + 1, end), 0, ...bodyLines);
+    return lines.join('\n');
+  }
+
+  let subEnd = lines.findIndex((line, index) => index > subStart && index < end && isSectionHeader(line, 2));
+  if (subEnd === -1) subEnd = end;
+
+  lines.splice(subStart, trimTrailingBlank(lines, subStart + 1, subEnd) - subStart, ...bodyLines);
+  return lines.join('\n');
+}
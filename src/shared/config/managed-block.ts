@@ -0,0 +1,62 @@
+/**
+ * Helpers for the block of lines ShellShade owns inside a user's config file.
+ * The block is fenced by comment markers so it can be replaced on the next
+ * apply without touching anything the user wrote around it.
+ */
+
+const BEGIN_MARKER = '>>> ShellShade >>>';
+const END_MARKER = '<<< ShellShade <<<';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function blockPattern(comment: string): RegExp {
+  const begin = escapeRegExp(`${comment} ${BEGIN_MARKER}`);
+  const end = escapeRegExp(`${comment} ${END_MARKER}`);
+  return new RegExp(`\\n?${begin}[\\s\\S]*?${end}[^\\n]*\\n?`);
+}
+
+// Wrap lines in ShellShade's begin/end markers, keeping the body's indentation
+function wrapManagedBlock(body: string, comment = '#'): string {
+  return `${comment} ${BEGIN_MARKER}\n${body.replace(/^\s*\n|\s+$/g, '')}\n${comment} ${END_MARKER}\n`;
+}
+
+/**
+ * Whether the content already has a managed block
+ */
+export function hasManagedBlock(content: string, comment = '#'): boolean {
+  return blockPattern(comment).test(content);
+}
+
+/**
+ * Lines inside the managed block, or null when there is none
+ */
+export function getManagedBlock(content: string, comment = '#'): string | null {
+  const match = content.match(blockPattern(comment));
+  if (!match) return null;
+  const lines = match[0].replace(/^\n/, '').split('\n');
+  return lines.slice(1, lines.findIndex(line => line.startsWith(`${comment} ${END_MARKER}`))).join('\n');
+}
+
+/**
+ * Replace the managed block in place, or add one if there is none. New blocks
+ * go at the end unless `placement` is 'prepend', for settings that must come
+ * before the first section of an INI file.
+ */
+export function upsertManagedBlock(content: string, body: string, comment = '#', placement: 'append' | 'prepend' = 'append'): string {
+  const block = wrapManagedBlock(body, comment);
+  const pattern = blockPattern(comment);
+
+  if (pattern.test(content)) {
+    return content.replace(pattern, match => (match.startsWith('\n') ? `\n${block}` : block));
+  }
+
+  if (placement === 'prepend') {
+    const rest = content.replace(/^\s+/, '');
+    return rest ? `${block}\n${rest}` : block;
+  }
+
+  const trimmed = content.replace(/\s+$/, '');
+  return trimmed ? `${trimmed}\n\n${block}` : block;
+}
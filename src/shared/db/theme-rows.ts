@@ -0,0 +1,122 @@
+import { EXTENDED_COLOR_KEYS } from '../types/theme';
+import { WARP_SETTING_KEY, decodeWarpMetadata } from '../formats/warp';
+import type { ThemeColors, ThemeSettings, AnsiColors, ExtendedColorKey, NormalAnsiKey } from '../types/theme';
+
+/**
+ * Mapping between themes and their theme_colors / theme_settings rows,
+ * shared by the IPC handlers, the installers and the CLI
+ */
+
+export function colorsToRows(themeId: string, colors: ThemeColors): Array<{ theme_id: string; color_key: string; hex_value: string }> {
+  const rows: Array<{ theme_id: string; color_key: string; hex_value: string }> = [];
+
+  // Core colors
+  rows.push({ theme_id: themeId, color_key: 'background', hex_value: colors.background });
+  rows.push({ theme_id: themeId, color_key: 'foreground', hex_value: colors.foreground });
+  rows.push({ theme_id: themeId, color_key: 'cursor', hex_value: colors.cursor });
+  rows.push({ theme_id: themeId, color_key: 'cursorText', hex_value: colors.cursorText });
+  rows.push({ theme_id: themeId, color_key: 'selection', hex_value: colors.selection });
+  rows.push({ theme_id: themeId, color_key: 'selectionText', hex_value: colors.selectionText });
+
+  // ANSI colors
+  const ansiKeys: (keyof AnsiColors)[] = [
+    'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white',
+    'brightBlack', 'brightRed', 'brightGreen', 'brightYellow', 'brightBlue', 'brightMagenta', 'brightCyan', 'brightWhite'
+  ];
+
+  for (const key of ansiKeys) {
+    rows.push({ theme_id: themeId, color_key: `ansi_${key}`, hex_value: colors.ansi[key] });
+  }
+
+  // Optional colors
+  for (const key of EXTENDED_COLOR_KEYS) {
+    const value = colors[key];
+    if (value) rows.push({ theme_id: themeId, color_key: key, hex_value: value });
+  }
+
+  for (const [key, value] of Object.entries(colors.dim || {})) {
+    if (value) rows.push({ theme_id: themeId, color_key: `dim_${key}`, hex_value: value });
+  }
+
+  for (const [index, value] of Object.entries(colors.indexed || {})) {
+    rows.push({ theme_id: themeId, color_key: `indexed_${index}`, hex_value: value });
+  }
+
+  return rows;
+}
+
+export function rowsToColors(rows: Array<{ color_key: string; hex_value: string }>): ThemeColors {
+  const colorMap = new Map(rows.map(r => [r.color_key, r.hex_value]));
+
+  const extended: Partial<Pick<ThemeColors, ExtendedColorKey>> = {};
+  for (const key of EXTENDED_COLOR_KEYS) {
+    const value = colorMap.get(key);
+    if (value) extended[key] = value;
+  }
+
+  const dim: NonNullable<ThemeColors['dim']> = {};
+  const indexed: Record<number, string> = {};
+  for (const { color_key, hex_value } of rows) {
+    if (color_key.startsWith('dim_')) {
+      dim[color_key.slice(4) as NormalAnsiKey] = hex_value;
+    } else if (color_key.startsWith('indexed_')) {
+      indexed[parseInt(color_key.slice(8), 10)] = hex_value;
+    }
+  }
+
+  return {
+    background: colorMap.get('background') || '#000000',
+    foreground: colorMap.get('foreground') || '#ffffff',
+    cursor: colorMap.get('cursor') || '#ffffff',
+    cursorText: colorMap.get('cursorText') || '#000000',
+    selection: colorMap.get('selection') || '#444444',
+    selectionText: colorMap.get('selectionText') || '#ffffff',
+    ansi: {
+      black: colorMap.get('ansi_black') || '#000000',
+      red: colorMap.get('ansi_red') || '#ff0000',
+      green: colorMap.get('ansi_green') || '#00ff00',
+      yellow: colorMap.get('ansi_yellow') || '#ffff00',
+      blue: colorMap.get('ansi_blue') || '#0000ff',
+      magenta: colorMap.get('ansi_magenta') || '#ff00ff',
+      cyan: colorMap.get('ansi_cyan') || '#00ffff',
+      white: colorMap.get('ansi_white') || '#ffffff',
+      brightBlack: colorMap.get('ansi_brightBlack') || '#666666',
+      brightRed: colorMap.get('ansi_brightRed') || '#ff6666',
+      brightGreen: colorMap.get('ansi_brightGreen') || '#66ff66',
+      brightYellow: colorMap.get('ansi_brightYellow') || '#ffff66',
+      brightBlue: colorMap.get('ansi_brightBlue') || '#6666ff',
+      brightMagenta: colorMap.get('ansi_brightMagenta') || '#ff66ff',
+      brightCyan: colorMap.get('ansi_brightCyan') || '#66ffff',
+      brightWhite: colorMap.get('ansi_brightWhite') || '#ffffff',
+    },
+    ...extended,
+    ...(Object.keys(dim).length > 0 && { dim }),
+    ...(Object.keys(indexed).length > 0 && { indexed }),
+  };
+}
+
+export function settingsToRows(themeId: string, settings: ThemeSettings): Array<{ theme_id: string; setting_key: string; setting_value: string }> {
+  const rows: Array<{ theme_id: string; setting_key: string; setting_value: string }> = [];
+
+  if (settings.fontFamily) rows.push({ theme_id: themeId, setting_key: 'fontFamily', setting_value: settings.fontFamily });
+  if (settings.fontSize) rows.push({ theme_id: themeId, setting_key: 'fontSize', setting_value: settings.fontSize.toString() });
+  if (settings.lineHeight) rows.push({ theme_id: themeId, setting_key: 'lineHeight', setting_value: settings.lineHeight.toString() });
+  if (settings.cursorStyle) rows.push({ theme_id: themeId, setting_key: 'cursorStyle', setting_value: settings.cursorStyle });
+  if (settings.cursorBlink !== undefined) rows.push({ theme_id: themeId, setting_key: 'cursorBlink', setting_value: settings.cursorBlink.toString() });
+  if (settings.warp) rows.push({ theme_id: themeId, setting_key: WARP_SETTING_KEY, setting_value: JSON.stringify(settings.warp) });
+
+  return rows;
+}
+
+export function rowsToSettings(rows: Array<{ setting_key: string; setting_value: string }>): ThemeSettings {
+  const settingsMap = new Map(rows.map(r => [r.setting_key, r.setting_value]));
+
+  return {
+    fontFamily: settingsMap.get('fontFamily'),
+    fontSize: settingsMap.get('fontSize') ? parseInt(settingsMap.get('fontSize')!, 10) : undefined,
+    lineHeight: settingsMap.get('lineHeight') ? parseFloat(settingsMap.get('lineHeight')!) : undefined,
+    cursorStyle: settingsMap.get('cursorStyle') as 'block' | 'beam' | 'underline' | undefined,
+    cursorBlink: settingsMap.has('cursorBlink') ? settingsMap.get('cursorBlink') === 'true' : undefined,
+    warp: decodeWarpMetadata(settingsMap.get(WARP_SETTING_KEY)),
+  };
+}
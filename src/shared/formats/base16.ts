@@ -0,0 +1,140 @@
+import type { ThemeColors } from '../types/theme';
+
+/**
+ * Base16 and Base24 palette mapping, following the tinted-theming builder
+ * templates for terminals.
+ */
+
+export type BaseSystem = 'base16' | 'base24';
+
+export const BASE16_KEYS = [
+  'base00', 'base01', 'base02', 'base03', 'base04', 'base05', 'base06', 'base07',
+  'base08', 'base09', 'base0A', 'base0B', 'base0C', 'base0D', 'base0E', 'base0F',
+] as const;
+
+export const BASE24_KEYS = [
+  ...BASE16_KEYS,
+  'base10', 'base11', 'base12', 'base13', 'base14', 'base15', 'base16', 'base17',
+] as const;
+
+export type BasePalette = Record<string, string>;
+
+/**
+ * Map a Base16 or Base24 palette to terminal colors. Base16 reuses the normal
+ * colors for the bright slots; Base24 has dedicated bright colors.
+ */
+export function paletteToColors(palette: BasePalette, system: BaseSystem): ThemeColors {
+  const p = (key: string) => palette[key];
+
+  if (system === 'base24') {
+    return {
+      background: p('base00'),
+      foreground: p('base05'),
+      cursor: p('base05'),
+      cursorText: p('base00'),
+      selection: p('base02'),
+      selectionText: p('base05'),
+      ansi: {
+        black: p('base01'),
+        red: p('base08'),
+        green: p('base0B'),
+        yellow: p('base0A'),
+        blue: p('base0D'),
+        magenta: p('base0E'),
+        cyan: p('base0C'),
+        white: p('base06'),
+        brightBlack: p('base02'),
+        brightRed: p('base12'),
+        brightGreen: p('base14'),
+        brightYellow: p('base13'),
+        brightBlue: p('base16'),
+        brightMagenta: p('base17'),
+        brightCyan: p('base15'),
+        brightWhite: p('base07'),
+      },
+    };
+  }
+
+  return {
+    background: p('base00'),
+    foreground: p('base05'),
+    cursor: p('base05'),
+    cursorText: p('base00'),
+    selection: p('base02'),
+    selectionText: p('base05'),
+    ansi: {
+      black: p('base00'),
+      red: p('base08'),
+      green: p('base0B'),
+      yellow: p('base0A'),
+      blue: p('base0D'),
+      magenta: p('base0E'),
+      cyan: p('base0C'),
+      white: p('base05'),
+      brightBlack: p('base03'),
+      brightRed: p('base08'),
+      brightGreen: p('base0B'),
+      brightYellow: p('base0A'),
+      brightBlue: p('base0D'),
+      brightMagenta: p('base0E'),
+      brightCyan: p('base0C'),
+      brightWhite: p('base07'),
+    },
+  };
+}
+
+/**
+ * Build a Base16 or Base24 palette from terminal colors. Slots the terminal
+ * palette has no equivalent for are filled with the closest role.
+ */
+export function colorsToPalette(colors: ThemeColors, system: BaseSystem): BasePalette {
+  const { ansi } = colors;
+
+  if (system === 'base24') {
+    return {
+      base00: colors.background,
+      base01: ansi.black,
+      base02: ansi.brightBlack,
+      base03: ansi.brightBlack,
+      base04: ansi.white,
+      base05: colors.foreground,
+      base06: ansi.white,
+      base07: ansi.brightWhite,
+      base08: ansi.red,
+      base09: ansi.yellow,
+      base0A: ansi.yellow,
+      base0B: ansi.green,
+      base0C: ansi.cyan,
+      base0D: ansi.blue,
+      base0E: ansi.magenta,
+      base0F: ansi.red,
+      base10: colors.background,
+      base11: colors.background,
+      base12: ansi.brightRed,
+      base13: ansi.brightYellow,
+      base14: ansi.brightGreen,
+      base15: ansi.brightCyan,
+      base16: ansi.brightBlue,
+      base17: ansi.brightMagenta,
+    };
+  }
+
+  return {
+    base00: colors.background,
+    base01: ansi.black,
+    base02: colors.selection,
+    base03: ansi.brightBlack,
+    base04: ansi.white,
+    base05: colors.foreground,
+    base06: ansi.brightWhite,
+    base07: ansi.brightWhite,
+    base08: ansi.red,
+    base09: ansi.brightRed,
+    base0A: ansi.yellow,
+    base0B: ansi.green,
+    base0C: ansi.cyan,
+    base0D: ansi.blue,
+    base0E: ansi.magenta,
+    base0F: ansi.brightMagenta,
+  };
+}
@@ -0,0 +1,94 @@
+import { clampRgb, converter, formatHex } from 'culori';
+import type { PlistObject } from 'plist';
+
+/**
+ * Conversion between hex colors and iTerm2 color dictionaries, honoring the
+ * dictionary's `Color Space` key. iTerm2 writes sRGB or P3 today; presets
+ * without the key predate color space support and use Calibrated RGB.
+ */
+
+export type ItermColorSpace = 'sRGB' | 'P3' | 'Calibrated' | 'Device';
+
+// Color spaces ShellShade can write back into an iTerm2 color dictionary
+export type ItermOutputColorSpace = 'sRGB' | 'P3';
+
+export type ItermColorDict = Record<string, unknown>;
+
+const toRgb = converter('rgb');
+const toP3 = converter('p3');
+
+// Apple Generic RGB (NSCalibratedRGBColorSpace) to XYZ, D65 white point
+const GENERIC_RGB_TO_XYZ = [
+  [0.4497288, 0.3162486, 0.1844926],
+  [0.2446525, 0.6720283, 0.0833192],
+  [0.0251848, 0.1411824, 0.9224628],
+];
+const GENERIC_RGB_GAMMA = 1.8;
+
+function component(dict: ItermColorDict, key: string): number {
+  const value = Number(dict[key]);
+  return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0;
+}
+
+/**
+ * Read the declared color space of an iTerm2 color dictionary
+ */
+export function getItermColorSpace(dict: ItermColorDict): ItermColorSpace {
+  switch (dict['Color Space']) {
+    case 'sRGB':
+      return 'sRGB';
+    case 'P3':
+      return 'P3';
+    case 'Device':
+      return 'Device';
+    default:
+      return 'Calibrated';
+  }
+}
+
+/**
+ * Convert an iTerm2 color dictionary to an sRGB hex color
+ */
+export function itermColorToHex(dict: ItermColorDict): string {
+  const r = component(dict, 'Red Component');
+  const g = component(dict, 'Green Component');
+  const b = component(dict, 'Blue Component');
+
+  switch (getItermColorSpace(dict)) {
+    case 'P3':
+      return formatHex(clampRgb(toRgb({ mode: 'p3', r, g, b })));
+
+    case 'Calibrated': {
+      const linear = [r, g, b].map(c => Math.pow(c, GENERIC_RGB_GAMMA));
+      const [x, y, z] = GENERIC_RGB_TO_XYZ.map(row =>
+        row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2]
+      );
+      return formatHex(clampRgb(toRgb({ mode: 'xyz65', x, y, z })));
+    }
+
+    default:
+      // Device RGB depends on the display it was picked on; sRGB is the closest match
+      return formatHex({ mode: 'rgb', r, g, b });
+  }
+}
+
+/**
+ * Convert a hex color to an iTerm2 color dictionary in the given color space
+ */
+export function hexToItermColorDict(hex: string, colorSpace: ItermOutputColorSpace = 'sRGB'): PlistObject {
+  let r = parseInt(hex.slice(1, 3), 16) / 255;
+  let g = parseInt(hex.slice(3, 5), 16) / 255;
+  let b = parseInt(hex.slice(5, 7), 16) / 255;
+
+  if (colorSpace === 'P3') {
+    ({ r, g, b } = toP3({ mode: 'rgb', r, g, b }));
+  }
+
+  return {
+    'Red Component': r,
+    'Green Component': g,
+    'Blue Component': b,
+    'Alpha Component': 1,
+    'Color Space': colorSpace,
+  };
+}
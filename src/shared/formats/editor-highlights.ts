@@ -0,0 +1,131 @@
+import type { AnsiColors } from '../types/theme';
+
+/**
+ * Editor highlight groups expressed in terminal theme slots, shared by the
+ * Neovim and Vim colorscheme generators. Each group names the slot it takes
+ * its colors from, so the GUI color and the cterm palette index agree.
+ */
+
+// A theme slot: an ANSI color, one of the theme's special colors, or "surface",
+// a background slightly lifted toward the foreground for bars and menus
+export type HighlightSlot =
+  | keyof AnsiColors
+  | 'background' | 'foreground' | 'cursor' | 'cursorText' | 'selection' | 'selectionText' | 'surface';
+
+export interface HighlightSpec {
+  fg?: HighlightSlot;
+  bg?: HighlightSlot;
+  sp?: HighlightSlot;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  undercurl?: boolean;
+  reverse?: boolean;
+}
+
+/**
+ * cterm palette index for slots outside the ANSI 16; null means the
+ * terminal's own default color (NONE)
+ */
+export const NON_ANSI_CTERM: Record<Exclude<HighlightSlot, keyof AnsiColors>, number | null> = {
+  background: null,
+  foreground: null,
+  cursor: 7,
+  cursorText: 0,
+  selection: 8,
+  selectionText: null,
+  surface: 0,
+};
+
+export const EDITOR_HIGHLIGHTS: Record<string, HighlightSpec> = {
+  // Editor UI
+  Normal: { fg: 'foreground', bg: 'background' },
+  NormalFloat: { fg: 'foreground', bg: 'surface' },
+  FloatBorder: { fg: 'brightBlack', bg: 'surface' },
+  Cursor: { fg: 'cursorText', bg: 'cursor' },
+  CursorLine: { bg: 'surface' },
+  CursorColumn: { bg: 'surface' },
+  ColorColumn: { bg: 'surface' },
+  CursorLineNr: { fg: 'yellow', bold: true },
+  LineNr: { fg: 'brightBlack' },
+  SignColumn: { fg: 'brightBlack', bg: 'background' },
+  Folded: { fg: 'brightBlack', bg: 'surface' },
+  FoldColumn: { fg: 'brightBlack', bg: 'background' },
+  VertSplit: { fg: 'brightBlack' },
+  WinSeparator: { fg: 'brightBlack' },
+  StatusLine: { fg: 'foreground', bg: 'surface' },
+  StatusLineNC: { fg: 'brightBlack', bg: 'surface' },
+  TabLine: { fg: 'brightBlack', bg: 'surface' },
+  TabLineSel: { fg: 'background', bg: 'blue', bold: true },
+  TabLineFill: { bg: 'surface' },
+  Pmenu: { fg: 'foreground', bg: 'surface' },
+  PmenuSel: { fg: 'selectionText', bg: 'selection' },
+  PmenuSbar: { bg: 'surface' },
+  PmenuThumb: { bg: 'brightBlack' },
+  Visual: { fg: 'selectionText', bg: 'selection' },
+  Search: { fg: 'background', bg: 'yellow' },
+  IncSearch: { fg: 'background', bg: 'brightYellow' },
+  CurSearch: { fg: 'background', bg: 'brightYellow' },
+  MatchParen: { fg: 'brightCyan', bold: true, underline: true },
+  NonText: { fg: 'brightBlack' },
+  Whitespace: { fg: 'brightBlack' },
+  SpecialKey: { fg: 'brightBlack' },
+  EndOfBuffer: { fg: 'brightBlack' },
+  Directory: { fg: 'blue' },
+  Title: { fg: 'magenta', bold: true },
+  ErrorMsg: { fg: 'red', bold: true },
+  WarningMsg: { fg: 'yellow' },
+  MoreMsg: { fg: 'green' },
+  ModeMsg: { fg: 'foreground', bold: true },
+  Question: { fg: 'green' },
+  WildMenu: { fg: 'selectionText', bg: 'selection' },
+  DiffAdd: { fg: 'green', reverse: true },
+  DiffChange: { fg: 'yellow', reverse: true },
+  DiffDelete: { fg: 'red', reverse: true },
+  DiffText: { fg: 'blue', reverse: true },
+  SpellBad: { sp: 'red', undercurl: true },
+  SpellCap: { sp: 'yellow', undercurl: true },
+  SpellRare: { sp: 'magenta', undercurl: true },
+  SpellLocal: { sp: 'cyan', undercurl: true },
+
+  // Syntax
+  Comment: { fg: 'brightBlack', italic: true },
+  Constant: { fg: 'magenta' },
+  String: { fg: 'green' },
+  Character: { fg: 'green' },
+  Number: { fg: 'magenta' },
+  Boolean: { fg: 'magenta' },
+  Float: { fg: 'magenta' },
+  Identifier: { fg: 'cyan' },
+  Function: { fg: 'blue' },
+  Statement: { fg: 'red' },
+  Conditional: { fg: 'red' },
+  Repeat: { fg: 'red' },
+  Label: { fg: 'red' },
+  Operator: { fg: 'foreground' },
+  Keyword: { fg: 'red' },
+  Exception: { fg: 'red' },
+  PreProc: { fg: 'yellow' },
+  Include: { fg: 'yellow' },
+  Define: { fg: 'yellow' },
+  Macro: { fg: 'yellow' },
+  Type: { fg: 'yellow' },
+  StorageClass: { fg: 'yellow' },
+  Structure: { fg: 'yellow' },
+  Typedef: { fg: 'yellow' },
+  Special: { fg: 'cyan' },
+  Delimiter: { fg: 'foreground' },
+  Underlined: { fg: 'blue', underline: true },
+  Error: { fg: 'brightRed', bold: true },
+  Todo: { fg: 'background', bg: 'yellow', bold: true },
+
+  // Diagnostics (Neovim; Vim ignores groups it doesn't know)
+  DiagnosticError: { fg: 'red' },
+  DiagnosticWarn: { fg: 'yellow' },
+  DiagnosticInfo: { fg: 'blue' },
+  DiagnosticHint: { fg: 'cyan' },
+  DiagnosticUnderlineError: { sp: 'red', undercurl: true },
+  DiagnosticUnderlineWarn: { sp: 'yellow', undercurl: true },
+  DiagnosticUnderlineInfo: { sp: 'blue', undercurl: true },
+  DiagnosticUnderlineHint: { sp: 'cyan', undercurl: true },
+};
@@ -0,0 +1,204 @@
+import type { AnsiColors, ThemeColors } from '../types/theme';
+
+/**
+ * File listing colors (ls, eza, lsd) expressed in theme slots. One mapping
+ * feeds the dircolors database, LS_COLORS, EZA_COLORS and lsd's colors.yaml,
+ * so every listing tool colors a directory or an archive the same way.
+ *
+ * Colors are written as 24-bit SGR sequences, so listings match the theme
+ * even where the terminal palette itself is not themed.
+ */
+
+export interface FileColorRule {
+  fg?: keyof AnsiColors;
+  bg?: keyof AnsiColors;
+  bold?: boolean;
+  underline?: boolean;
+}
+
+// LS_COLORS key, the matching dircolors keyword, and how to color it.
+// Special permission bits use bold and underline instead of the usual
+// backgrounds, which are hard to read in most palettes.
+export const FILE_TYPE_COLORS: Array<{ key: string; keyword: string; rule: FileColorRule }> = [
+  { key: 'di', keyword: 'DIR', rule: { fg: 'blue', bold: true } },
+  { key: 'ex', keyword: 'EXEC', rule: { fg: 'green', bold: true } },
+  { key: 'ln', keyword: 'LINK', rule: { fg: 'cyan' } },
+  { key: 'or', keyword: 'ORPHAN', rule: { fg: 'red', bold: true } },
+  { key: 'mi', keyword: 'MISSING', rule: { fg: 'red' } },
+  { key: 'pi', keyword: 'FIFO', rule: { fg: 'yellow' } },
+  { key: 'so', keyword: 'SOCK', rule: { fg: 'magenta', bold: true } },
+  { key: 'do', keyword: 'DOOR', rule: { fg: 'magenta', bold: true } },
+  { key: 'bd', keyword: 'BLK', rule: { fg: 'yellow', bold: true } },
+  { key: 'cd', keyword: 'CHR', rule: { fg: 'yellow', bold: true } },
+  { key: 'su', keyword: 'SETUID', rule: { fg: 'red', bold: true, underline: true } },
+  { key: 'sg', keyword: 'SETGID', rule: { fg: 'yellow', bold: true, underline: true } },
+  { key: 'tw', keyword: 'STICKY_OTHER_WRITABLE', rule: { fg: 'brightBlue', bold: true, underline: true } },
+  { key: 'ow', keyword: 'OTHER_WRITABLE', rule: { fg: 'blue', bold: true, underline: true } },
+  { key: 'st', keyword: 'STICKY', rule: { fg: 'brightBlue', bold: true } },
+];
+
+export const FILE_EXTENSION_COLORS: Array<{ name: string; rule: FileColorRule; extensions: string[] }> = [
+  {
+    name: 'Archives',
+    rule: { fg: 'red', bold: true },
+    extensions: [
+      'tar', 'tgz', 'tbz', 'tbz2', 'txz', 'tzst', 'gz', 'bz2', 'xz', 'zst', 'lz', 'lzma', 'lz4',
+      'zip', '7z', 'rar', 'jar', 'war', 'deb', 'rpm', 'apk', 'dmg', 'iso', 'cab', 'cpio',
+    ],
+  },
+  {
+    name: 'Images',
+    rule: { fg: 'magenta' },
+    extensions: ['jpg', 'jpeg', 'png', 'gif', 'bmp', 'tif', 'tiff', 'webp', 'avif', 'heic', 'svg', 'ico', 'psd', 'xcf'],
+  },
+  {
+    name: 'Video',
+    rule: { fg: 'brightMagenta' },
+    extensions: ['mp4', 'mkv', 'webm', 'avi', 'mov', 'wmv', 'flv', 'm4v', 'mpg', 'mpeg', 'ogv'],
+  },
+  {
+    name: 'Audio',
+    rule: { fg: 'brightCyan' },
+    extensions: ['mp3', 'flac', 'ogg', 'opus', 'wav', 'm4a', 'aac', 'wma', 'mid', 'midi'],
+  },
+];
+
+// eza's own keys for the other columns: permissions, size, owner, date, git
+export const EZA_COLUMN_COLORS: Record<string, FileColorRule> = {
+  ur: { fg: 'yellow' },
+  uw: { fg: 'red' },
+  ux: { fg: 'green' },
+  ue: { fg: 'green' },
+  gr: { fg: 'yellow' },
+  gw: { fg: 'red' },
+  gx: { fg: 'green' },
+  tr: { fg: 'yellow' },
+  tw: { fg: 'red' },
+  tx: { fg: 'green' },
+  xx: { fg: 'brightBlack' },
+  sn: { fg: 'green' },
+  sb: { fg: 'brightBlack' },
+  uu: { fg: 'yellow', bold: true },
+  un: { fg: 'brightBlack' },
+  gu: { fg: 'yellow' },
+  gn: { fg: 'brightBlack' },
+  da: { fg: 'blue' },
+  hd: { underline: true },
+  lp: { fg: 'cyan' },
+  ga: { fg: 'green' },
+  gm: { fg: 'blue' },
+  gd: { fg: 'red' },
+  gv: { fg: 'yellow' },
+  gt: { fg: 'magenta' },
+};
+
+function rgbSgr(hex: string): string {
+  return [1, 3, 5].map(index => parseInt(hex.slice(index, index + 2), 16)).join(';');
+}
+
+/**
+ * SGR parameters for a rule, as used in LS_COLORS and dircolors
+ */
+export function fileColorSgr(rule: FileColorRule, colors: ThemeColors): string {
+  const codes: string[] = [];
+  if (rule.bold) codes.push('01');
+  if (rule.underline) codes.push('04');
+  if (rule.fg) codes.push(`38;2;${rgbSgr(colors.ansi[rule.fg])}`);
+  if (rule.bg) codes.push(`48;2;${rgbSgr(colors.ansi[rule.bg])}`);
+  return codes.join(';') || '00';
+}
+
+/**
+ * LS_COLORS entries (`di`, `*.zip`, ...) with their SGR parameters
+ */
+export function lsColorEntries(colors: ThemeColors): Array<[string, string]> {
+  return [
+    ...FILE_TYPE_COLORS.map(({ key, rule }): [string, string] => [key, fileColorSgr(rule, colors)]),
+    ...FILE_EXTENSION_COLORS.flatMap(({ rule, extensions }) =>
+      extensions.map((ext): [string, string] => [`*.${ext}`, fileColorSgr(rule, colors)])
+    ),
+  ];
+}
+
+/**
+ * LS_COLORS value for a theme
+ */
+export function toLsColors(colors: ThemeColors): string {
+  return lsColorEntries(colors).map(([key, sgr]) => `${key}=${sgr}`).join(':');
+}
+
+/**
+ * EZA_COLORS value: the LS_COLORS entries plus eza's column colors
+ */
+export function toEzaColors(colors: ThemeColors): string {
+  const columns = Object.entries(EZA_COLUMN_COLORS).map(([key, rule]) => `${key}=${fileColorSgr(rule, colors)}`);
+  return [toLsColors(colors), ...columns].join(':');
+}
+
+/**
+ * lsd colors.yaml contents. lsd takes extension colors from LS_COLORS, so
+ * this covers file types and the other columns.
+ */
+export function toLsdColors(colors: ThemeColors): Record<string, unknown> {
+  const typeColor = (key: string) => {
+    const rule = FILE_TYPE_COLORS.find(entry => entry.key === key)?.rule;
+    return rule?.fg ? colors.ansi[rule.fg] : colors.foreground;
+  };
+  const column = (key: string) => colors.ansi[EZA_COLUMN_COLORS[key].fg ?? 'white'];
+
+  return {
+    user: column('uu'),
+    group: column('gu'),
+    permission: {
+      read: column('ur'),
+      write: column('uw'),
+      exec: column('ux'),
+      'exec-sticky': typeColor('st'),
+      'no-access': column('xx'),
+      octal: colors.ansi.cyan,
+      acl: colors.ansi.cyan,
+      context: colors.ansi.cyan,
+    },
+    date: {
+      'hour-old': colors.ansi.brightBlue,
+      'day-old': column('da'),
+      older: colors.ansi.brightBlack,
+    },
+    size: {
+      none: column('sb'),
+      small: column('sn'),
+      medium: colors.ansi.yellow,
+      large: colors.ansi.red,
+    },
+    inode: { valid: colors.ansi.magenta, invalid: colors.ansi.brightBlack },
+    links: { valid: colors.ansi.magenta, invalid: colors.ansi.brightBlack },
+    'tree-edge': colors.ansi.brightBlack,
+    'git-status': {
+      default: colors.ansi.brightBlack,
+      unmodified: colors.ansi.brightBlack,
+      ignored: colors.ansi.brightBlack,
+      'new-in-index': column('ga'),
+      'new-in-workdir': column('ga'),
+      typechange: column('gt'),
+      deleted: column('gd'),
+      renamed: column('gv'),
+      modified: column('gm'),
+      conflicted: colors.ansi.brightRed,
+    },
+    'file-type': {
+      file: {
+        'exec-uid': typeColor('ex'),
+        'uid-no-exec': colors.foreground,
+        'exec-no-uid': typeColor('ex'),
+        'no-exec-no-uid': colors.foreground,
+      },
+      dir: { uid: typeColor('di'), 'no-uid': typeColor('di') },
+      pipe: typeColor('pi'),
+      symlink: { default: typeColor('ln'), broken: typeColor('or'), 'missing-target': typeColor('mi') },
+      'block-device': typeColor('bd'),
+      'char-device': typeColor('cd'),
+      socket: typeColor('so'),
+      special: typeColor('so'),
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { ANSI_COLOR_KEYS } from '../types/theme';
+import type { AnsiColors, ThemeColors } from '../types/theme';
+
+/**
+ * Hyper keeps its colors as properties of the `config` object in .hyper.js.
+ */
+
+// Hyper calls the bright colors "light"
+export const HYPER_COLOR_NAMES: Record<keyof AnsiColors, string> = {
+  black: 'black',
+  red: 'red',
+  green: 'green',
+  yellow: 'yellow',
+  blue: 'blue',
+  magenta: 'magenta',
+  cyan: 'cyan',
+  white: 'white',
+  brightBlack: 'lightBlack',
+  brightRed: 'lightRed',
+  brightGreen: 'lightGreen',
+  brightYellow: 'lightYellow',
+  brightBlue: 'lightBlue',
+  brightMagenta: 'lightMagenta',
+  brightCyan: 'lightCyan',
+  brightWhite: 'lightWhite',
+};
+
+// The config properties ShellShade writes, so an apply can replace earlier values
+export const HYPER_COLOR_PROPERTIES = [
+  'foregroundColor', 'backgroundColor', 'cursorColor', 'cursorAccentColor', 'selectionColor', 'colors',
+];
+
+/**
+ * The color properties of a Hyper config object, one per line
+ */
+export function hyperColorProperties(colors: ThemeColors, indent = ''): string {
+  const lines = [
+    `foregroundColor: '${colors.foreground}',`,
+    `backgroundColor: '${colors.background}',`,
+    `cursorColor: '${colors.cursor}',`,
+    `cursorAccentColor: '${colors.cursorText}',`,
+    `selectionColor: '${colors.selection}',`,
+    'colors: {',
+    ...ANSI_COLOR_KEYS.map(key => `  ${HYPER_COLOR_NAMES[key]}: '${colors.ansi[key]}',`),
+    '},',
+  ];
+  return lines.map(line => indent + line).join('\n');
+}
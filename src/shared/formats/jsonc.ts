@@ -0,0 +1,216 @@
+/**
+ * JSON with comments (JSONC), as used by Windows Terminal and VS Code settings.
+ */
+
+/**
+ * Remove // and block comments, leaving anything inside strings (like URLs) alone
+ */
+export function stripJsonComments(content: string): string {
+  let result = '';
+  let inString = false;
+  let escaped = false;
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+    const nextChar = content[i + 1];
+
+    if (inString) {
+      result += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      i++;
+    } else if (char === '"') {
+      inString = true;
+      result += char;
+      i++;
+    } else if (char === '/' && nextChar === '/') {
+      // Single-line comment - skip until end of line
+      while (i < content.length && content[i] !== '\n') {
+        i++;
+      }
+    } else if (char === '/' && nextChar === '*') {
+      // Multi-line comment - skip until */
+      i += 2;
+      while (i < content.length - 1 && !(content[i] === '*' && content[i + 1] === '/')) {
+        i++;
+      }
+      i += 2;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse JSONC, also dropping the trailing commas it allows
+ */
+export function parseJsonc(content: string): unknown {
+  const json = stripJsonComments(content).replace(/,(\s*[}\]])/g, '$1');
+  return JSON.parse(json);
+}
+
+interface JsoncMember {
+  key: string;
+  keyStart: number;
+  valueStart: number;
+  valueEnd: number;
+}
+
+interface JsoncObject {
+  start: number;
+  end: number;
+  members: JsoncMember[];
+}
+
+// Skip whitespace and comments
+function skipJsonc(content: string, index: number): number {
+  let i = index;
+  while (i < content.length) {
+    if (/\s/.test(content[i])) {
+      i++;
+    } else if (content.startsWith('//', i)) {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end + 1;
+    } else if (content.startsWith('/*', i)) {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 2;
+    } else {
+      break;
+    }
+  }
+  return i;
+}
+
+function invalidJsonc(index: number): never {
+  throw new Error(`Invalid JSONC at offset ${index}`);
+}
+
+function scanJsoncString(content: string, index: number): number {
+  for (let i = index + 1; i < content.length; i++) {
+    if (content[i] === '\\') i++;
+    else if (content[i] === '"') return i + 1;
+  }
+  return invalidJsonc(index);
+}
+
+// Offset just past the value starting at index
+function scanJsoncValue(content: string, index: number): number {
+  const char = content[index];
+  if (char === '"') return scanJsoncString(content, index);
+  if (char === '{') return scanJsoncObject(content, index).end + 1;
+
+  if (char === '[') {
+    let i = skipJsonc(content, index + 1);
+    while (content[i] !== ']') {
+      if (i >= content.length) invalidJsonc(index);
+      i = skipJsonc(content, content[i] === ',' ? i + 1 : scanJsoncValue(content, i));
+    }
+    return i + 1;
+  }
+
+  const literal = content.slice(index).match(/^[^\s,\]}/]+/);
+  return literal ? index + literal[0].length : invalidJsonc(index);
+}
+
+/**
+ * Find where an object and its members sit in the text, so edits can leave
+ * comments and formatting alone
+ */
+function scanJsoncObject(content: string, index: number): JsoncObject {
+  if (content[index] !== '{') invalidJsonc(index);
+
+  const members: JsoncMember[] = [];
+  let i = skipJsonc(content, index + 1);
+  while (content[i] !== '}') {
+    if (i >= content.length) invalidJsonc(index);
+    if (content[i] === ',') {
+      i = skipJsonc(content, i + 1);
+      continue;
+    }
+    if (content[i] !== '"') invalidJsonc(i);
+
+    const keyEnd = scanJsoncString(content, i);
+    const key = JSON.parse(content.slice(i, keyEnd)) as string;
+    const colon = skipJsonc(content, keyEnd);
+    if (content[colon] !== ':') invalidJsonc(colon);
+
+    const valueStart = skipJsonc(content, colon + 1);
+    const valueEnd = scanJsoncValue(content, valueStart);
+    members.push({ key, keyStart: i, valueStart, valueEnd });
+    i = skipJsonc(content, valueEnd);
+  }
+
+  return { start: index, end: i, members };
+}
+
+// Leading whitespace of the line holding offset
+function lineIndent(content: string, offset: number): string {
+  const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+  return content.slice(lineStart).match(/^[^\S\n]*/)?.[0] ?? '';
+}
+
+// Wrap a value in one object per remaining key, innermost last
+function nestValue(keys: string[], value: unknown): unknown {
+  return keys.reduceRight<unknown>((inner, key) => ({ [key]: inner }), value);
+}
+
+/**
+ * Set the value at a path of object keys, creating missing objects along the
+ * way. Comments, ordering and formatting elsewhere in the file are kept.
+ */
+export function setJsoncValue(content: string, keys: string[], value: unknown): string {
+  // Nothing but whitespace and comments: start the object after them
+  if (skipJsonc(content, 0) >= content.length) {
+    const prefix = content.trim() ? `${content.replace(/\s+$/, '')}\n` : '';
+    return prefix + JSON.stringify(nestValue(keys, value), null, 4) + '\n';
+  }
+
+  const indentUnit = content.match(/\n([ \t]+)"/)?.[1] || '    ';
+  const format = (data: unknown, indent: string) => JSON.stringify(data, null, indentUnit).replace(/\n/g, `\n${indent}`);
+
+  let object = scanJsoncObject(content, skipJsonc(content, 0));
+  for (let depth = 0; depth < keys.length; depth++) {
+    const key = keys[depth];
+    const member = object.members.find(m => m.key === key);
+    const remaining = nestValue(keys.slice(depth + 1), value);
+
+    if (!member) {
+      // Insert after the last member (or the opening brace), matching the members' indentation
+      const last = object.members[object.members.length - 1];
+      const indent = last ? lineIndent(content, last.keyStart) : lineIndent(content, object.start) + indentUnit;
+      const entry = `\n${indent}${JSON.stringify(key)}: ${format(remaining, indent)}`;
+
+      if (last) {
+        const afterLast = skipJsonc(content, last.valueEnd);
+        if (content[afterLast] === ',') {
+          return content.slice(0, afterLast + 1) + entry + content.slice(afterLast + 1);
+        }
+        return content.slice(0, last.valueEnd) + ',' + entry + content.slice(last.valueEnd);
+      }
+
+      const inner = content.slice(object.start + 1, object.end);
+      if (!inner.trim()) {
+        return content.slice(0, object.start + 1) + entry + `\n${lineIndent(content, object.start)}` + content.slice(object.end);
+      }
+      return content.slice(0, object.start + 1) + entry + content.slice(object.start + 1);
+    }
+
+    if (depth === keys.length - 1 || content[member.valueStart] !== '{') {
+      const indent = lineIndent(content, member.keyStart);
+      return content.slice(0, member.valueStart) + format(remaining, indent) + content.slice(member.valueEnd);
+    }
+
+    object = scanJsoncObject(content, member.valueStart);
+  }
+
+  return content;
+}
@@ -0,0 +1,228 @@
+import plist from 'plist';
+import type { PlistObject, PlistValue } from 'plist';
+import { parsePlist } from './plist';
+
+/**
+ * Helpers for reading and writing NSKeyedArchiver payloads, the format
+ * Terminal.app uses to store colors and fonts inside .terminal profiles.
+ */
+
+// NSColorSpace values used by NSColor's keyed archive
+const NS_CALIBRATED_RGB = 1;
+const NS_DEVICE_RGB = 2;
+const NS_CALIBRATED_WHITE = 3;
+const NS_DEVICE_WHITE = 4;
+const NS_DEVICE_CMYK = 5;
+const NS_NAMED = 6;
+const NS_COMPONENTS = 7;
+
+// NSfFlags value Cocoa writes for ordinary fixed-pitch fonts
+const NS_FONT_FLAGS = 16;
+
+/**
+ * Font stored in an NSFont keyed archive
+ */
+export interface ArchivedFont {
+  // PostScript name, e.g. "SFMono-Regular"
+  name: string;
+  size: number;
+}
+
+// Reference to another entry of $objects
+function uid(index: number): PlistObject {
+  return { CF$UID: index };
+}
+
+// Format a 0-1 color component the way Cocoa writes NSRGB strings
+function formatComponent(value: number): string {
+  return Number(value.toFixed(10)).toString();
+}
+
+// Wrap a root object and its class into a complete keyed archive. Values the
+// root refers to by UID go in `values`, starting at $objects index 2.
+function buildArchive(root: PlistObject, classes: string[], values: PlistValue[] = []): Buffer {
+  const archive = {
+    $archiver: 'NSKeyedArchiver',
+    $version: 100000,
+    $top: { root: uid(1) },
+    $objects: [
+      '$null',
+      { ...root, $class: uid(2 + values.length) },
+      ...values,
+      { $classname: classes[0], $classes: classes },
+    ] as PlistValue[],
+  };
+
+  return Buffer.from(plist.build(archive, { pretty: false }), 'utf-8');
+}
+
+/**
+ * Archive a hex color as an NSColor keyed archive.
+ */
+export function archiveColor(hex: string): Buffer {
+  const r = parseInt(hex.slice(1, 3), 16) / 255;
+  const g = parseInt(hex.slice(3, 5), 16) / 255;
+  const b = parseInt(hex.slice(5, 7), 16) / 255;
+
+  // NSRGB is a NUL-terminated ASCII string of space-separated components
+  const rgb = `${formatComponent(r)} ${formatComponent(g)} ${formatComponent(b)}\0`;
+
+  return buildArchive(
+    {
+      NSColorSpace: NS_CALIBRATED_RGB,
+      NSRGB: Buffer.from(rgb, 'ascii'),
+    },
+    ['NSColor', 'NSObject']
+  );
+}
+
+/**
+ * Archive a font as an NSFont keyed archive.
+ */
+export function archiveFont(font: ArchivedFont): Buffer {
+  return buildArchive(
+    {
+      NSName: uid(2),
+      NSSize: font.size,
+      NSfFlags: NS_FONT_FLAGS,
+    },
+    ['NSFont', 'NSObject'],
+    [font.name]
+  );
+}
+
+// Check for a `{ CF$UID: n }` reference
+function isUid(value: PlistValue | undefined): value is PlistObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    !Buffer.isBuffer(value) && !(value instanceof Date) && 'CF$UID' in value;
+}
+
+/**
+ * Decode a keyed archive into its root object. UID references are replaced by
+ * the objects they point to and '$null' becomes null.
+ */
+export function unarchive(data: Buffer): PlistValue | null {
+  const archive = parsePlist(data) as PlistObject;
+  const objects = archive?.$objects;
+  const top = archive?.$top as PlistObject | undefined;
+
+  if (archive?.$archiver !== 'NSKeyedArchiver' || !Array.isArray(objects) || !isUid(top?.root)) {
+    throw new Error('Not an NSKeyedArchiver archive');
+  }
+
+  // Objects currently being resolved, so cyclic references resolve to null
+  const inProgress = new Set<number>();
+
+  const resolve = (value: PlistValue): PlistValue | null => {
+    if (isUid(value)) {
+      const index = Number(value.CF$UID);
+      const target = objects[index];
+      if (target === undefined || target === '$null' || inProgress.has(index)) return null;
+
+      inProgress.add(index);
+      const resolved = resolve(target);
+      inProgress.delete(index);
+      return resolved;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => resolve(item)).filter((item): item is PlistValue => item !== null);
+    }
+
+    if (value && typeof value === 'object' && !Buffer.isBuffer(value) && !(value instanceof Date)) {
+      const result: Record<string, PlistValue> = {};
+      for (const [key, item] of Object.entries(value)) {
+        const resolved = resolve(item);
+        if (resolved !== null) result[key] = resolved;
+      }
+      return result as PlistObject;
+    }
+
+    return value;
+  };
+
+  return resolve(top.root as PlistValue);
+}
+
+// Parse the space-separated numbers of an NSRGB/NSWhite/NSCMYK/NSComponents value
+function parseComponents(value: PlistValue | undefined): number[] | null {
+  if (value === undefined) return null;
+
+  const text = Buffer.isBuffer(value) ? value.toString('ascii') : String(value);
+  const components = text
+    .replace(/\0/g, '')
+    .trim()
+    .split(/\s+/)
+    .map(Number);
+
+  return components.length > 0 && components.every(Number.isFinite) ? components : null;
+}
+
+function toHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b]
+    .map(c => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Convert a decoded NSColor object to hex
+function colorObjectToHex(color: PlistObject): string | null {
+  const space = Number(color.NSColorSpace);
+
+  const rgb = parseComponents(color.NSRGB);
+  if ((space === NS_CALIBRATED_RGB || space === NS_DEVICE_RGB || space === NS_COMPONENTS) && rgb && rgb.length >= 3) {
+    return toHex(rgb[0], rgb[1], rgb[2]);
+  }
+
+  const white = parseComponents(color.NSWhite);
+  if ((space === NS_CALIBRATED_WHITE || space === NS_DEVICE_WHITE) && white) {
+    return toHex(white[0], white[0], white[0]);
+  }
+
+  const cmyk = parseComponents(color.NSCMYK);
+  if (space === NS_DEVICE_CMYK && cmyk && cmyk.length >= 4) {
+    const [c, m, y, k] = cmyk;
+    return toHex((1 - c) * (1 - k), (1 - m) * (1 - k), (1 - y) * (1 - k));
+  }
+
+  // Named (catalog) colors carry their resolved value as a nested NSColor
+  if (space === NS_NAMED && color.NSColor && typeof color.NSColor === 'object') {
+    return colorObjectToHex(color.NSColor as PlistObject);
+  }
+
+  const components = parseComponents(color.NSComponents);
+  if (components && components.length >= 3) {
+    return toHex(components[0], components[1], components[2]);
+  }
+  if (rgb && rgb.length >= 3) {
+    return toHex(rgb[0], rgb[1], rgb[2]);
+  }
+
+  return null;
+}
+
+/**
+ * Decode an NSColor keyed archive to a hex color, or null if the color
+ * cannot be represented as RGB.
+ */
+export function unarchiveColor(data: Buffer): string | null {
+  const color = unarchive(data);
+  if (!color || typeof color !== 'object' || Array.isArray(color) || Buffer.isBuffer(color)) {
+    return null;
+  }
+  return colorObjectToHex(color as PlistObject);
+}
+
+/**
+ * Decode an NSFont keyed archive
+ */
+export function unarchiveFont(data: Buffer): ArchivedFont | null {
+  const font = unarchive(data) as PlistObject | null;
+  if (!font || typeof font.NSName !== 'string') {
+    return null;
+  }
+
+  return {
+    name: font.NSName,
+    size: Number(font.NSSize) || 0,
+  };
+}
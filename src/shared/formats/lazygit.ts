@@ -0,0 +1,29 @@
+import type { ThemeColors } from '../types/theme';
+
+/**
+ * lazygit reads its colors from `gui.theme` in config.yml. Each entry is a
+ * list of a color (hex or a named terminal color) and attributes like "bold".
+ */
+
+export type LazygitTheme = Record<string, string[]>;
+
+/**
+ * Build the `gui.theme` section for a theme
+ */
+export function toLazygitTheme(colors: ThemeColors): LazygitTheme {
+  const { ansi } = colors;
+  return {
+    activeBorderColor: [ansi.blue, 'bold'],
+    inactiveBorderColor: [ansi.brightBlack],
+    searchingActiveBorderColor: [ansi.yellow, 'bold'],
+    optionsTextColor: [ansi.blue],
+    selectedLineBgColor: [colors.selection],
+    inactiveViewSelectedLineBgColor: ['bold'],
+    cherryPickedCommitFgColor: [ansi.blue],
+    cherryPickedCommitBgColor: [ansi.cyan],
+    markedBaseCommitFgColor: [ansi.blue],
+    markedBaseCommitBgColor: [ansi.yellow],
+    unstagedChangesColor: [ansi.red],
+    defaultFgColor: [colors.foreground],
+  };
+}
@@ -0,0 +1,177 @@
+import plist from 'plist';
+import type { PlistObject, PlistValue } from 'plist';
+
+/**
+ * In-process property list reader for both XML and binary ("bplist00") plists,
+ * so .itermcolors and .terminal files can be imported on any platform.
+ *
+ * Binary UIDs (used by NSKeyedArchiver) are returned as `{ CF$UID: n }`, the
+ * same shape the XML parser produces for keyed archives saved as XML.
+ */
+
+const BPLIST_MAGIC = 'bplist00';
+
+// Seconds between the Unix epoch and the Core Data epoch (2001-01-01)
+const CF_ABSOLUTE_TIME_OFFSET = 978307200;
+
+/**
+ * Check whether a buffer holds a binary plist
+ */
+export function isBinaryPlist(data: Buffer): boolean {
+  return data.length >= 8 && data.toString('ascii', 0, 8) === BPLIST_MAGIC;
+}
+
+/**
+ * Parse an XML or binary plist
+ */
+export function parsePlist(data: Buffer): PlistValue {
+  if (isBinaryPlist(data)) {
+    return parseBinaryPlist(data);
+  }
+
+  const xml = data.toString('utf-8');
+  if (!xml.includes('<plist')) {
+    throw new Error('Not a property list');
+  }
+  return plist.parse(xml);
+}
+
+// Read an unsigned big-endian integer of 1 to 8 bytes
+function readUInt(data: Buffer, offset: number, size: number): number {
+  if (size === 8) {
+    return Number(data.readBigUInt64BE(offset));
+  }
+  if (size < 1 || size > 6) {
+    throw new Error(`Unsupported integer size in binary plist: ${size}`);
+  }
+  return data.readUIntBE(offset, size);
+}
+
+/**
+ * Parse a binary plist (bplist00)
+ */
+export function parseBinaryPlist(data: Buffer): PlistValue {
+  if (!isBinaryPlist(data) || data.length < 40) {
+    throw new Error('Not a binary property list');
+  }
+
+  // Trailer: 6 unused bytes, offset int size, object ref size, then three 64-bit values
+  const trailer = data.length - 32;
+  const offsetSize = data.readUInt8(trailer + 6);
+  const refSize = data.readUInt8(trailer + 7);
+  const numObjects = Number(data.readBigUInt64BE(trailer + 8));
+  const topObject = Number(data.readBigUInt64BE(trailer + 16));
+  const offsetTableOffset = Number(data.readBigUInt64BE(trailer + 24));
+
+  if (offsetTableOffset + numObjects * offsetSize > trailer || topObject >= numObjects) {
+    throw new Error('Corrupt binary property list trailer');
+  }
+
+  const offsets: number[] = [];
+  for (let i = 0; i < numObjects; i++) {
+    offsets.push(readUInt(data, offsetTableOffset + i * offsetSize, offsetSize));
+  }
+
+  // Objects currently being decoded, to reject reference cycles
+  const inProgress = new Set<number>();
+
+  // Read the length that follows a marker, handling the extended (0xF) form
+  const readLength = (info: number, offset: number): { length: number; start: number } => {
+    if (info !== 0xf) {
+      return { length: info, start: offset + 1 };
+    }
+    const intMarker = data.readUInt8(offset + 1);
+    if (intMarker >> 4 !== 0x1) {
+      throw new Error('Invalid length marker in binary plist');
+    }
+    const intSize = 1 << (intMarker & 0xf);
+    return { length: readUInt(data, offset + 2, intSize), start: offset + 2 + intSize };
+  };
+
+  const readObject = (ref: number): PlistValue => {
+    if (ref >= numObjects) {
+      throw new Error(`Object reference out of range in binary plist: ${ref}`);
+    }
+    if (inProgress.has(ref)) {
+      throw new Error('Circular reference in binary plist');
+    }
+
+    const offset = offsets[ref];
+    const marker = data.readUInt8(offset);
+    const type = marker >> 4;
+    const info = marker & 0xf;
+
+    switch (type) {
+      case 0x0:
+        // 0x09 is true; false, null and fill have no better plist representation
+        if (info === 0x9) return true;
+        return false;
+
+      case 0x1: {
+        const size = 1 << info;
+        if (size === 8) return Number(data.readBigInt64BE(offset + 1));
+        if (size === 16) return Number(data.readBigInt64BE(offset + 9));
+        return readUInt(data, offset + 1, size);
+      }
+
+      case 0x2:
+        if (info === 2) return data.readFloatBE(offset + 1);
+        if (info === 3) return data.readDoubleBE(offset + 1);
+        throw new Error(`Unsupported real size in binary plist: ${1 << info}`);
+
+      case 0x3:
+        return new Date((data.readDoubleBE(offset + 1) + CF_ABSOLUTE_TIME_OFFSET) * 1000);
+
+      case 0x4: {
+        const { length, start } = readLength(info, offset);
+        return Buffer.from(data.subarray(start, start + length));
+      }
+
+      case 0x5: {
+        const { length, start } = readLength(info, offset);
+        return data.toString('ascii', start, start + length);
+      }
+
+      case 0x6: {
+        const { length, start } = readLength(info, offset);
+        // UTF-16BE: swap to little-endian for Node's utf16le decoder
+        const chars = Buffer.from(data.subarray(start, start + length * 2));
+        chars.swap16();
+        return chars.toString('utf16le');
+      }
+
+      case 0x8:
+        return { CF$UID: readUInt(data, offset + 1, info + 1) };
+
+      case 0xa:
+      case 0xc: {
+        const { length, start } = readLength(info, offset);
+        inProgress.add(ref);
+        const items: PlistValue[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(readObject(readUInt(data, start + i * refSize, refSize)));
+        }
+        inProgress.delete(ref);
+        return items;
+      }
+
+      case 0xd: {
+        const { length, start } = readLength(info, offset);
+        inProgress.add(ref);
+        const dict: Record<string, PlistValue> = {};
+        for (let i = 0; i < length; i++) {
+          const key = readObject(readUInt(data, start + i * refSize, refSize));
+          const value = readObject(readUInt(data, start + (length + i) * refSize, refSize));
+          dict[String(key)] = value;
+        }
+        inProgress.delete(ref);
+        return dict as PlistObject;
+      }
+
+      default:
+        throw new Error(`Unsupported object type in binary plist: 0x${marker.toString(16)}`);
+    }
+  };
+
+  return readObject(topObject);
+}
@@ -0,0 +1,76 @@
+import { ANSI_COLOR_KEYS } from '../types/theme';
+import type { AnsiColors, ThemeColors } from '../types/theme';
+
+/**
+ * Prompt colors (Starship, oh-my-posh, Powerlevel10k) derived from a theme.
+ * Starship and oh-my-posh take a named palette; Powerlevel10k takes one
+ * parameter per segment state.
+ */
+
+export const STARSHIP_PALETTE = 'shellshade';
+
+/**
+ * Starship palette. Keys use Starship's own color names (purple, bright-red),
+ * so modules styled with built-in colors pick up the theme without changes.
+ */
+export function toStarshipPalette(colors: ThemeColors): Record<string, string> {
+  const palette: Record<string, string> = {};
+  for (const key of ANSI_COLOR_KEYS) {
+    const name = key.replace('magenta', 'purple').replace('Magenta', 'Purple').replace(/[A-Z]/g, char => `-${char.toLowerCase()}`);
+    palette[name] = colors.ansi[key];
+  }
+  palette.foreground = colors.foreground;
+  palette.background = colors.background;
+  return palette;
+}
+
+/**
+ * oh-my-posh palette, referenced from segments as `p:<name>`
+ */
+export function toOhMyPoshPalette(colors: ThemeColors): Record<string, string> {
+  const palette: Record<string, string> = {
+    foreground: colors.foreground,
+    background: colors.background,
+    cursor: colors.cursor,
+    selection: colors.selection,
+  };
+  for (const key of ANSI_COLOR_KEYS) {
+    palette[key] = colors.ansi[key];
+  }
+  return palette;
+}
+
+// Powerlevel10k segment states and the slot each one's foreground takes.
+// Braces expand in zsh, as in the files `p10k configure` writes.
+const P10K_FOREGROUNDS: Array<[string, keyof AnsiColors | 'foreground']> = [
+  ['OS_ICON', 'foreground'],
+  ['DIR', 'blue'],
+  ['DIR_SHORTENED', 'brightBlack'],
+  ['DIR_ANCHOR', 'brightBlue'],
+  ['VCS_CLEAN', 'green'],
+  ['VCS_MODIFIED', 'yellow'],
+  ['VCS_UNTRACKED', 'cyan'],
+  ['VCS_CONFLICTED', 'red'],
+  ['VCS_LOADING', 'brightBlack'],
+  ['PROMPT_CHAR_OK_{VIINS,VICMD,VIVIS,VIOWR}', 'magenta'],
+  ['PROMPT_CHAR_ERROR_{VIINS,VICMD,VIVIS,VIOWR}', 'red'],
+  ['STATUS_OK', 'green'],
+  ['STATUS_ERROR', 'red'],
+  ['COMMAND_EXECUTION_TIME', 'yellow'],
+  ['BACKGROUND_JOBS', 'cyan'],
+  ['CONTEXT', 'brightBlack'],
+  ['CONTEXT_ROOT', 'red'],
+  ['VIRTUALENV', 'green'],
+  ['TIME', 'brightBlack'],
+  ['MULTILINE_FIRST_PROMPT_GAP', 'brightBlack'],
+];
+
+/**
+ * `POWERLEVEL9K_*_FOREGROUND` parameter names with their colors
+ */
+export function toP10kForegrounds(colors: ThemeColors): Array<[string, string]> {
+  return P10K_FOREGROUNDS.map(([segment, slot]) => [
+    `POWERLEVEL9K_${segment}_FOREGROUND`,
+    slot === 'foreground' ? colors.foreground : colors.ansi[slot],
+  ]);
+}
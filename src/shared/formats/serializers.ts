@@ -0,0 +1,1213 @@
+import { createHash } from 'crypto';
+import plist from 'plist';
+import type { PlistObject } from 'plist';
+import yaml from 'yaml';
+import { ANSI_COLOR_KEYS } from '../types/theme';
+import type { AnsiColors, NormalAnsiKey, Theme, ThemeFormat, ThemeSettings } from '../types/theme';
+import { colorsToPalette } from './base16';
+import type { BaseSystem } from './base16';
+import { hexToItermColorDict } from './color-space';
+import type { ItermOutputColorSpace } from './color-space';
+import { EDITOR_HIGHLIGHTS, NON_ANSI_CTERM } from './editor-highlights';
+import { FILE_EXTENSION_COLORS, FILE_TYPE_COLORS, fileColorSgr, toEzaColors, toLsColors, toLsdColors } from './file-colors';
+import type { HighlightSlot, HighlightSpec } from './editor-highlights';
+import { hyperColorProperties } from './hyper';
+import { archiveColor, archiveFont } from './keyed-archive';
+import { toLazygitTheme } from './lazygit';
+import { STARSHIP_PALETTE, toOhMyPoshPalette, toP10kForegrounds, toStarshipPalette } from './prompts';
+import { toTabbyColorScheme } from './tabby';
+import { VSCODE_COLOR_CUSTOMIZATIONS, toVscodeTerminalColors } from './vscode';
+
+/**
+ * Theme data needed by a serializer. Only the name and colors are required so
+ * the CLI and installers can serialize straight from a color map.
+ */
+export type SerializableTheme = Pick<Theme, 'name' | 'colors'> &
+  Partial<Pick<Theme, 'id' | 'author' | 'description' | 'settings' | 'sourceFormat'>>;
+
+/**
+ * Options for formats that support them; other serializers ignore these
+ */
+export interface SerializeOptions {
+  // Color space for iTerm2 color dictionaries (defaults to sRGB)
+  colorSpace?: ItermOutputColorSpace;
+}
+
+/**
+ * Serializer for a single export format
+ */
+export interface ThemeSerializer {
+  format: ThemeFormat;
+  label: string;
+  extension: string;
+  serialize(theme: SerializableTheme, options?: SerializeOptions): string;
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/(^-|-$)/g, '');
+}
+
+// Header comment shared by the line-based config formats
+function header(theme: SerializableTheme): string {
+  return `# ShellShade Theme: ${theme.name}\n# Generated by ShellShade\n`;
+}
+
+// Build the color entries shared by .itermcolors and Dynamic Profiles
+function itermColorEntries(theme: SerializableTheme, options: SerializeOptions = {}): Record<string, PlistObject> {
+  const { colors } = theme;
+  const toDict = (hex: string) => hexToItermColorDict(hex, options.colorSpace);
+  const entries: Record<string, PlistObject> = {
+    'Background Color': toDict(colors.background),
+    'Foreground Color': toDict(colors.foreground),
+    'Cursor Color': toDict(colors.cursor),
+    'Cursor Text Color': toDict(colors.cursorText),
+    'Selection Color': toDict(colors.selection),
+    'Selected Text Color': toDict(colors.selectionText),
+  };
+
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    entries[`Ansi ${index} Color`] = toDict(colors.ansi[key]);
+  });
+
+  if (colors.link) entries['Link Color'] = toDict(colors.link);
+  if (colors.badge) entries['Badge Color'] = toDict(colors.badge);
+  if (colors.tab) entries['Tab Color'] = toDict(colors.tab);
+
+  return entries;
+}
+
+// Terminal.app CursorType values
+const TERMINAL_CURSOR_TYPES: Record<NonNullable<ThemeSettings['cursorStyle']>, number> = {
+  block: 0,
+  underline: 1,
+  beam: 2,
+};
+
+// Terminal.app looks fonts up by PostScript name ("SF Mono" -> "SFMono-Regular")
+function toPostScriptName(fontFamily: string): string {
+  const name = fontFamily.replace(/\s+/g, '');
+  return name.includes('-') ? name : `${name}-Regular`;
+}
+
+// macOS Terminal.app .terminal profile
+function serializeTerminalApp(theme: SerializableTheme): string {
+  const { colors, settings = {} } = theme;
+  const profile: Record<string, string | number | boolean | Buffer> = {
+    name: theme.name,
+    type: 'Window Settings',
+    ProfileCurrentVersion: 2.07,
+    BackgroundColor: archiveColor(colors.background),
+    TextColor: archiveColor(colors.foreground),
+    TextBoldColor: archiveColor(colors.ansi.brightWhite),
+    CursorColor: archiveColor(colors.cursor),
+    SelectionColor: archiveColor(colors.selection),
+  };
+
+  const terminalNames = ['Black', 'Red', 'Green', 'Yellow', 'Blue', 'Magenta', 'Cyan', 'White'];
+  terminalNames.forEach((name, index) => {
+    profile[`ANSI${name}Color`] = archiveColor(colors.ansi[ANSI_COLOR_KEYS[index]]);
+    profile[`ANSIBright${name}Color`] = archiveColor(colors.ansi[ANSI_COLOR_KEYS[index + 8]]);
+  });
+
+  // Font and line spacing only carry over from Terminal.app's own profiles.
+  // Elsewhere lineHeight is a CSS-style preview value, while FontHeightSpacing
+  // 1.0 is Terminal.app's normal spacing; leave the user's font alone too.
+  if (theme.sourceFormat === 'terminal') {
+    if (settings.fontFamily) {
+      profile.Font = archiveFont({ name: toPostScriptName(settings.fontFamily), size: settings.fontSize || 13 });
+    }
+    if (settings.lineHeight) profile.FontHeightSpacing = settings.lineHeight;
+  }
+  if (settings.cursorStyle) profile.CursorType = TERMINAL_CURSOR_TYPES[settings.cursorStyle];
+  if (settings.cursorBlink !== undefined) profile.CursorBlink = settings.cursorBlink;
+
+  return plist.build(profile);
+}
+
+// iTerm2 .itermcolors (plist XML)
+function serializeItermColors(theme: SerializableTheme, options?: SerializeOptions): string {
+  return plist.build(itermColorEntries(theme, options));
+}
+
+// iTerm2 Dynamic Profile JSON
+function serializeItermJson(theme: SerializableTheme, options?: SerializeOptions): string {
+  const profile = {
+    Profiles: [{
+      Name: theme.name,
+      Guid: theme.id || `shellshade-${slugify(theme.name)}`,
+      ...itermColorEntries(theme, options),
+    }],
+  };
+
+  return JSON.stringify(profile, null, 2);
+}
+
+// Alacritty TOML (0.13+)
+function serializeAlacritty(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const extra: string[] = [];
+
+  if (colors.dim && Object.keys(colors.dim).length > 0) {
+    extra.push('[colors.dim]', ...Object.entries(colors.dim).map(([key, value]) => `${key} = "${value}"`), '');
+  }
+
+  const highlights: Array<[string, string | undefined, string | undefined]> = [
+    ['search.matches', colors.searchMatchText, colors.searchMatch],
+    ['search.focused_match', colors.searchFocusedText, colors.searchFocused],
+    ['hints.start', colors.hintStartText, colors.hintStart],
+    ['hints.end', colors.hintEndText, colors.hintEnd],
+  ];
+  for (const [table, foreground, background] of highlights) {
+    if (!foreground && !background) continue;
+    extra.push(`[colors.${table}]`);
+    if (foreground) extra.push(`foreground = "${foreground}"`);
+    if (background) extra.push(`background = "${background}"`);
+    extra.push('');
+  }
+
+  for (const [index, color] of Object.entries(colors.indexed || {})) {
+    extra.push('[[colors.indexed_colors]]', `index = ${index}`, `color = "${color}"`, '');
+  }
+
+  return `${header(theme)}
+[colors.primary]
+background = "${colors.background}"
+foreground = "${colors.foreground}"
+
+[colors.cursor]
+text = "${colors.cursorText}"
+cursor = "${colors.cursor}"
+
+[colors.selection]
+text = "${colors.selectionText}"
+background = "${colors.selection}"
+
+[colors.normal]
+black = "${colors.ansi.black}"
+red = "${colors.ansi.red}"
+green = "${colors.ansi.green}"
+yellow = "${colors.ansi.yellow}"
+blue = "${colors.ansi.blue}"
+magenta = "${colors.ansi.magenta}"
+cyan = "${colors.ansi.cyan}"
+white = "${colors.ansi.white}"
+
+[colors.bright]
+black = "${colors.ansi.brightBlack}"
+red = "${colors.ansi.brightRed}"
+green = "${colors.ansi.brightGreen}"
+yellow = "${colors.ansi.brightYellow}"
+blue = "${colors.ansi.brightBlue}"
+magenta = "${colors.ansi.brightMagenta}"
+cyan = "${colors.ansi.brightCyan}"
+white = "${colors.ansi.brightWhite}"
+${extra.length > 0 ? `\n${extra.join('\n')}` : ''}`;
+}
+
+// Kitty .conf
+function serializeKitty(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const ansiLines = ANSI_COLOR_KEYS.map((key, index) => `color${index} ${colors.ansi[key]}`);
+
+  return `${header(theme)}
+foreground ${colors.foreground}
+background ${colors.background}
+cursor ${colors.cursor}
+cursor_text_color ${colors.cursorText}
+selection_foreground ${colors.selectionText}
+selection_background ${colors.selection}
+
+# Normal colors
+${ansiLines.slice(0, 8).join('\n')}
+
+# Bright colors
+${ansiLines.slice(8).join('\n')}
+`;
+}
+
+// Perceived brightness of a hex color, 0-255
+function brightness(hex: string): number {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return (r * 299 + g * 587 + b * 114) / 1000;
+}
+
+// WezTerm color scheme TOML, loaded from ~/.config/wezterm/colors/
+function serializeWezterm(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const palette = ANSI_COLOR_KEYS.map(key => `"${colors.ansi[key]}"`);
+  const indexed = Object.entries(colors.indexed || {}).map(([index, color]) => `${index} = "${color}"`);
+
+  return `${header(theme)}
+[colors]
+foreground = "${colors.foreground}"
+background = "${colors.background}"
+cursor_bg = "${colors.cursor}"
+cursor_border = "${colors.cursor}"
+cursor_fg = "${colors.cursorText}"
+selection_bg = "${colors.selection}"
+selection_fg = "${colors.selectionText}"
+ansi = [${palette.slice(0, 8).join(', ')}]
+brights = [${palette.slice(8).join(', ')}]
+${indexed.length > 0 ? `indexed = { ${indexed.join(', ')} }\n` : ''}
+[metadata]
+name = ${JSON.stringify(theme.name)}
+author = ${JSON.stringify(theme.author || 'ShellShade')}
+`;
+}
+
+// Ghostty theme file, loaded from ~/.config/ghostty/themes/
+function serializeGhostty(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const palette = ANSI_COLOR_KEYS.map((key, index) => `palette = ${index}=${colors.ansi[key]}`);
+  for (const [index, color] of Object.entries(colors.indexed || {})) {
+    palette.push(`palette = ${index}=${color}`);
+  }
+
+  return `${header(theme)}
+background = ${colors.background}
+foreground = ${colors.foreground}
+cursor-color = ${colors.cursor}
+cursor-text = ${colors.cursorText}
+selection-background = ${colors.selection}
+selection-foreground = ${colors.selectionText}
+
+${palette.join('\n')}
+`;
+}
+
+// foot [colors] section, included from foot.ini (colors are hex without #)
+function serializeFoot(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const bare = (hex: string) => hex.replace(/^#/, '');
+  const lines = [
+    `foreground=${bare(colors.foreground)}`,
+    `background=${bare(colors.background)}`,
+    ...ANSI_COLOR_KEYS.map((key, index) => `${index < 8 ? 'regular' : 'bright'}${index % 8}=${bare(colors.ansi[key])}`),
+  ];
+
+  ANSI_COLOR_KEYS.slice(0, 8).forEach((key, index) => {
+    const dim = colors.dim?.[key as NormalAnsiKey];
+    if (dim) lines.push(`dim${index}=${bare(dim)}`);
+  });
+
+  for (const [index, color] of Object.entries(colors.indexed || {})) {
+    lines.push(`${index}=${bare(color)}`);
+  }
+
+  lines.push(
+    `selection-foreground=${bare(colors.selectionText)}`,
+    `selection-background=${bare(colors.selection)}`,
+    // foot takes the text color first, then the cursor color
+    `cursor=${bare(colors.cursorText)} ${bare(colors.cursor)}`,
+  );
+
+  return `${header(theme)}
+[colors]
+${lines.join('\n')}
+`;
+}
+
+// Minimal .hyper.js holding only the color config
+function serializeHyper(theme: SerializableTheme): string {
+  return `// ShellShade Theme: ${theme.name}
+// Generated by ShellShade
+module.exports = {
+  config: {
+${hyperColorProperties(theme.colors, '    ')}
+  },
+};
+`;
+}
+
+// Tabby config.yaml fragment with the theme as the terminal color scheme
+function serializeTabby(theme: SerializableTheme): string {
+  const config = { terminal: { colorScheme: toTabbyColorScheme(theme.name, theme.colors) } };
+  return `${header(theme)}\n${yaml.stringify(config)}`;
+}
+
+// VS Code settings.json fragment with the terminal colors
+function serializeVscode(theme: SerializableTheme): string {
+  const settings = { [VSCODE_COLOR_CUSTOMIZATIONS]: toVscodeTerminalColors(theme.colors) };
+  return JSON.stringify(settings, null, 4) + '\n';
+}
+
+// Blend two hex colors; weight is the share of the second one
+function mixColors(a: string, b: string, weight: number): string {
+  const channel = (hex: string, index: number) => parseInt(hex.slice(1 + index * 2, 3 + index * 2), 16);
+  return '#' + [0, 1, 2]
+    .map(index => Math.round(channel(a, index) * (1 - weight) + channel(b, index) * weight).toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Background for bars and panels: ANSI black when it stands apart from the
+// background, otherwise the selection color
+function panelBackground(colors: SerializableTheme['colors']): string {
+  return Math.abs(brightness(colors.ansi.black) - brightness(colors.background)) > 12
+    ? colors.ansi.black
+    : colors.selection;
+}
+
+// tmux styles for the status line, pane borders, messages and copy mode, for source-file
+function serializeTmux(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const { ansi } = colors;
+  const panel = panelBackground(colors);
+
+  return `${header(theme)}
+set -g status-style "bg=${panel},fg=${colors.foreground}"
+set -g status-left-style "bg=${ansi.blue},fg=${colors.background},bold"
+set -g status-right-style "bg=${panel},fg=${ansi.brightBlack}"
+set -g window-status-style "bg=${panel},fg=${ansi.brightBlack}"
+set -g window-status-current-style "bg=${panel},fg=${ansi.blue},bold"
+set -g window-status-activity-style "bg=${panel},fg=${ansi.yellow}"
+set -g window-status-bell-style "bg=${panel},fg=${ansi.red},bold"
+set -g pane-border-style "fg=${ansi.brightBlack}"
+set -g pane-active-border-style "fg=${ansi.blue}"
+set -g message-style "bg=${ansi.yellow},fg=${colors.background}"
+set -g message-command-style "bg=${ansi.cyan},fg=${colors.background}"
+set -g mode-style "bg=${colors.selection},fg=${colors.selectionText}"
+set -g display-panes-active-colour "${ansi.blue}"
+set -g display-panes-colour "${ansi.brightBlack}"
+set -g clock-mode-colour "${ansi.blue}"
+`;
+}
+
+/**
+ * Name a generated theme goes by where the target loads it by name
+ * (Zellij themes, editor colorschemes)
+ */
+export function generatedThemeName(theme: SerializableTheme): string {
+  return `shellshade-${slugify(theme.name) || 'theme'}`;
+}
+
+/**
+ * Terminator profile name for a theme. ConfigObj section names can't hold
+ * brackets or double quotes, so brackets are dropped and quotes made single.
+ */
+export function terminatorProfileName(theme: SerializableTheme): string {
+  return theme.name.replace(/[[\]]/g, '').replace(/"/g, "'").trim() || 'ShellShade';
+}
+
+// Zellij theme in KDL, loaded from ~/.config/zellij/themes/. Zellij has no
+// orange ANSI slot, so it is blended from red and yellow.
+function serializeZellij(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const { ansi } = colors;
+
+  return `// ShellShade Theme: ${theme.name}
+// Generated by ShellShade
+themes {
+    ${generatedThemeName(theme)} {
+        fg "${colors.foreground}"
+        bg "${colors.background}"
+        black "${ansi.black}"
+        red "${ansi.red}"
+        green "${ansi.green}"
+        yellow "${ansi.yellow}"
+        blue "${ansi.blue}"
+        magenta "${ansi.magenta}"
+        cyan "${ansi.cyan}"
+        white "${ansi.white}"
+        orange "${mixColors(ansi.red, ansi.yellow, 0.5)}"
+    }
+}
+`;
+}
+
+// GNU screen hardstatus and renditions. screen can only name the 16 ANSI
+// slots ("bg fg" letter pairs, uppercase for bright), so the theme decides
+// which slots stand out best against its background.
+function serializeScreen(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const { ansi } = colors;
+  const distance = (hex: string) => Math.abs(brightness(hex) - brightness(colors.background));
+
+  const bar = distance(ansi.black) >= distance(ansi.brightBlack) ? 'k' : 'K';
+  const text = distance(ansi.white) >= distance(ansi.brightWhite) ? 'w' : 'W';
+  const muted = bar === 'K' ? 'k' : 'K';
+
+  return `${header(theme)}
+hardstatus alwayslastline
+hardstatus string '%{= ${bar}${text}} %H %{= ${bar}${muted}}%-w%{= ${bar}b}%n %t%{-}%+w%=%{= ${bar}${muted}} %Y-%m-%d %c '
+rendition so '= y${bar.toLowerCase()}'
+rendition bell '= r${text}'
+rendition monitor '= c${bar.toLowerCase()}'
+rendition silence '= m${text}'
+`;
+}
+
+// GUI color and cterm palette index (null for the terminal default) of a highlight slot
+function resolveSlot(colors: SerializableTheme['colors'], slot: HighlightSlot): { gui: string; cterm: number | null } {
+  const index = ANSI_COLOR_KEYS.indexOf(slot as keyof AnsiColors);
+  if (index !== -1) {
+    return { gui: colors.ansi[slot as keyof AnsiColors], cterm: index };
+  }
+
+  const special = slot as keyof typeof NON_ANSI_CTERM;
+  const gui = special === 'surface' ? mixColors(colors.background, colors.foreground, 0.1) : colors[special];
+  return { gui, cterm: NON_ANSI_CTERM[special] };
+}
+
+const HIGHLIGHT_FLAGS = ['bold', 'italic', 'underline', 'undercurl', 'reverse'] as const;
+
+function highlightFlags(spec: HighlightSpec): string[] {
+  return HIGHLIGHT_FLAGS.filter(flag => spec[flag]);
+}
+
+// Neovim colorscheme in Lua, for ~/.config/nvim/colors/
+function serializeNeovim(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const terminalColors = ANSI_COLOR_KEYS.map((key, index) => `vim.g.terminal_color_${index} = '${colors.ansi[key]}'`);
+
+  const groups = Object.entries(EDITOR_HIGHLIGHTS).map(([group, spec]) => {
+    const fields: string[] = [];
+    for (const attr of ['fg', 'bg', 'sp'] as const) {
+      const slot = spec[attr];
+      if (!slot) continue;
+      const { gui, cterm } = resolveSlot(colors, slot);
+      fields.push(`${attr} = '${gui}'`);
+      if (attr !== 'sp' && cterm !== null) fields.push(`cterm${attr} = ${cterm}`);
+    }
+    fields.push(...highlightFlags(spec).map(flag => `${flag} = true`));
+    return `hl('${group}', { ${fields.join(', ')} })`;
+  });
+
+  return `-- ShellShade Theme: ${theme.name}
+-- Generated by ShellShade
+vim.cmd('highlight clear')
+if vim.fn.exists('syntax_on') == 1 then
+  vim.cmd('syntax reset')
+end
+vim.o.background = '${brightness(colors.background) < 128 ? 'dark' : 'light'}'
+vim.g.colors_name = '${generatedThemeName(theme)}'
+
+${terminalColors.join('\n')}
+
+local hl = function(group, opts)
+  vim.api.nvim_set_hl(0, group, opts)
+end
+
+${groups.join('\n')}
+`;
+}
+
+// Vimscript colorscheme, for Vim (~/.vim/colors/) or Neovim setups without Lua
+function serializeVim(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const palette = ANSI_COLOR_KEYS.map(key => `'${colors.ansi[key]}'`);
+  const terminalColors = ANSI_COLOR_KEYS.map((key, index) => `let g:terminal_color_${index} = '${colors.ansi[key]}'`);
+
+  const groups = Object.entries(EDITOR_HIGHLIGHTS).map(([group, spec]) => {
+    const args: string[] = [];
+    for (const attr of ['fg', 'bg', 'sp'] as const) {
+      const slot = spec[attr];
+      if (!slot) continue;
+      const { gui, cterm } = resolveSlot(colors, slot);
+      args.push(`gui${attr}=${gui}`);
+      if (attr !== 'sp') args.push(`cterm${attr}=${cterm ?? 'NONE'}`);
+    }
+    const flags = highlightFlags(spec).join(',') || 'NONE';
+    args.push(`gui=${flags}`, `cterm=${flags}`);
+    return `highlight ${group} ${args.join(' ')}`;
+  });
+
+  return `" ShellShade Theme: ${theme.name}
+" Generated by ShellShade
+set background=${brightness(colors.background) < 128 ? 'dark' : 'light'}
+highlight clear
+if exists('syntax_on')
+  syntax reset
+endif
+let g:colors_name = '${generatedThemeName(theme)}'
+
+" Vim's :terminal, then Neovim's
+let g:terminal_ansi_colors = [${palette.join(', ')}]
+${terminalColors.join('\n')}
+
+${groups.join('\n')}
+`;
+}
+
+// Helix theme TOML, for ~/.config/helix/themes/. Scopes refer to the [palette] names.
+function serializeHelix(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const paletteEntries = [
+    `background = "${colors.background}"`,
+    `foreground = "${colors.foreground}"`,
+    `cursor = "${colors.cursor}"`,
+    `cursor_text = "${colors.cursorText}"`,
+    `selection = "${colors.selection}"`,
+    `selection_text = "${colors.selectionText}"`,
+    `surface = "${mixColors(colors.background, colors.foreground, 0.1)}"`,
+    ...ANSI_COLOR_KEYS.map(key => `${key.replace(/[A-Z]/g, char => `_${char.toLowerCase()}`)} = "${colors.ansi[key]}"`),
+  ];
+
+  return `${header(theme)}
+"ui.background" = { bg = "background" }
+"ui.text" = "foreground"
+"ui.text.focus" = { fg = "foreground", bg = "surface" }
+"ui.cursor" = { fg = "cursor_text", bg = "cursor" }
+"ui.cursor.primary" = { fg = "cursor_text", bg = "cursor" }
+"ui.cursor.match" = { fg = "bright_cyan", modifiers = ["bold", "underlined"] }
+"ui.cursorline.primary" = { bg = "surface" }
+"ui.selection" = { fg = "selection_text", bg = "selection" }
+"ui.linenr" = "bright_black"
+"ui.linenr.selected" = { fg = "yellow", modifiers = ["bold"] }
+"ui.statusline" = { fg = "foreground", bg = "surface" }
+"ui.statusline.inactive" = { fg = "bright_black", bg = "surface" }
+"ui.statusline.normal" = { fg = "background", bg = "blue", modifiers = ["bold"] }
+"ui.statusline.insert" = { fg = "background", bg = "green", modifiers = ["bold"] }
+"ui.statusline.select" = { fg = "background", bg = "magenta", modifiers = ["bold"] }
+"ui.popup" = { fg = "foreground", bg = "surface" }
+"ui.help" = { fg = "foreground", bg = "surface" }
+"ui.menu" = { fg = "foreground", bg = "surface" }
+"ui.menu.selected" = { fg = "selection_text", bg = "selection" }
+"ui.window" = "bright_black"
+"ui.virtual.whitespace" = "bright_black"
+"ui.virtual.ruler" = { bg = "surface" }
+"ui.virtual.inlay-hint" = "bright_black"
+
+comment = { fg = "bright_black", modifiers = ["italic"] }
+keyword = "red"
+label = "red"
+tag = "red"
+operator = "foreground"
+punctuation = "foreground"
+function = "blue"
+string = "green"
+constant = "magenta"
+"constant.character.escape" = "cyan"
+type = "yellow"
+namespace = "yellow"
+attribute = "yellow"
+variable = "foreground"
+"variable.other.member" = "cyan"
+special = "cyan"
+
+"markup.heading" = { fg = "magenta", modifiers = ["bold"] }
+"markup.bold" = { modifiers = ["bold"] }
+"markup.italic" = { modifiers = ["italic"] }
+"markup.link.url" = { fg = "blue", underline = { style = "line" } }
+"markup.raw" = "green"
+
+"diff.plus" = "green"
+"diff.minus" = "red"
+"diff.delta" = "yellow"
+
+error = "red"
+warning = "yellow"
+info = "blue"
+hint = "cyan"
+"diagnostic.error" = { underline = { color = "red", style = "curl" } }
+"diagnostic.warning" = { underline = { color = "yellow", style = "curl" } }
+"diagnostic.info" = { underline = { color = "blue", style = "curl" } }
+"diagnostic.hint" = { underline = { color = "cyan", style = "curl" } }
+
+[palette]
+${paletteEntries.join('\n')}
+`;
+}
+
+// fzf --color option, exported through FZF_DEFAULT_OPTS by a sourced shell snippet
+function serializeFzf(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const { ansi } = colors;
+  const fzfColors: Record<string, string> = {
+    fg: colors.foreground,
+    bg: colors.background,
+    hl: ansi.blue,
+    'fg+': colors.selectionText,
+    'bg+': colors.selection,
+    'hl+': ansi.brightBlue,
+    info: ansi.yellow,
+    prompt: ansi.green,
+    pointer: ansi.magenta,
+    marker: ansi.green,
+    spinner: ansi.magenta,
+    header: ansi.cyan,
+    border: ansi.brightBlack,
+    gutter: colors.background,
+    query: colors.foreground,
+  };
+  const option = Object.entries(fzfColors).map(([name, hex]) => `${name}:${hex}`).join(',');
+
+  return `${header(theme)}
+export FZF_DEFAULT_OPTS="$FZF_DEFAULT_OPTS --color=${option}"
+`;
+}
+
+// TextMate .tmTheme (plist XML) for bat, which delta also reads as its syntax theme
+function serializeBat(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const { ansi } = colors;
+  const scope = (name: string, scopes: string, foreground: string, fontStyle?: string): PlistObject => ({
+    name,
+    scope: scopes,
+    settings: fontStyle ? { foreground, fontStyle } : { foreground },
+  });
+
+  return plist.build({
+    name: generatedThemeName(theme),
+    author: 'ShellShade',
+    settings: [
+      {
+        settings: {
+          background: colors.background,
+          foreground: colors.foreground,
+          caret: colors.cursor,
+          selection: colors.selection,
+          selectionForeground: colors.selectionText,
+          lineHighlight: mixColors(colors.background, colors.foreground, 0.1),
+          invisibles: ansi.brightBlack,
+          gutter: colors.background,
+          gutterForeground: ansi.brightBlack,
+        },
+      },
+      scope('Comment', 'comment, punctuation.definition.comment', ansi.brightBlack, 'italic'),
+      scope('String', 'string, constant.other.symbol', ansi.green),
+      scope('Escape', 'constant.character.escape, string.regexp', ansi.cyan),
+      scope('Number', 'constant.numeric, constant.language, constant.character', ansi.magenta),
+      scope('Keyword', 'keyword, storage, keyword.control', ansi.red),
+      scope('Operator', 'keyword.operator, punctuation', colors.foreground),
+      scope('Function', 'entity.name.function, support.function, meta.function-call', ansi.blue),
+      scope('Type', 'entity.name.type, entity.name.class, support.type, support.class, storage.type', ansi.yellow),
+      scope('Variable', 'variable, variable.parameter', colors.foreground),
+      scope('Property', 'variable.other.member, variable.other.property, support.variable', ansi.cyan),
+      scope('Tag', 'entity.name.tag', ansi.red),
+      scope('Attribute', 'entity.other.attribute-name', ansi.yellow),
+      scope('Heading', 'markup.heading, entity.name.section', ansi.magenta, 'bold'),
+      scope('Link', 'markup.underline.link', ansi.blue, 'underline'),
+      scope('Inserted', 'markup.inserted', ansi.green),
+      scope('Deleted', 'markup.deleted', ansi.red),
+      scope('Changed', 'markup.changed', ansi.yellow),
+      scope('Invalid', 'invalid', ansi.brightRed, 'bold'),
+    ],
+  });
+}
+
+/**
+ * Name of the delta feature ShellShade writes; enable it with
+ * `features = shellshade` under [delta]
+ */
+export const DELTA_FEATURE = 'shellshade';
+
+// delta feature block for gitconfig. Its syntax theme is the bat theme of the same name.
+function serializeDelta(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const { ansi } = colors;
+  const isDark = brightness(colors.background) < 128;
+
+  return `${header(theme)}
+[delta "${DELTA_FEATURE}"]
+\tdark = ${isDark}
+\tsyntax-theme = ${generatedThemeName(theme)}
+\tminus-style = syntax "${mixColors(colors.background, ansi.red, 0.2)}"
+\tminus-emph-style = syntax "${mixColors(colors.background, ansi.red, 0.4)}"
+\tplus-style = syntax "${mixColors(colors.background, ansi.green, 0.2)}"
+\tplus-emph-style = syntax "${mixColors(colors.background, ansi.green, 0.4)}"
+\tline-numbers-minus-style = "${ansi.red}"
+\tline-numbers-plus-style = "${ansi.green}"
+\tline-numbers-zero-style = "${ansi.brightBlack}"
+\tline-numbers-left-style = "${ansi.brightBlack}"
+\tline-numbers-right-style = "${ansi.brightBlack}"
+\tfile-style = "${ansi.yellow}" bold
+\tfile-decoration-style = "${ansi.yellow}" ul
+\thunk-header-style = file line-number syntax
+\thunk-header-decoration-style = "${ansi.blue}" box
+\tcommit-decoration-style = "${ansi.magenta}" box
+\tblame-palette = "${colors.background}" "${mixColors(colors.background, colors.foreground, 0.1)}"
+`;
+}
+
+// lazygit config.yml with the gui.theme section
+function serializeLazygit(theme: SerializableTheme): string {
+  const config = { gui: { theme: toLazygitTheme(theme.colors) } };
+  return `${header(theme)}\n${yaml.stringify(config)}`;
+}
+
+// btop .theme, loaded from ~/.config/btop/themes/
+function serializeBtop(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const { ansi } = colors;
+  const gradient = (name: string, start: string, mid: string, end: string) => ({
+    [`${name}_start`]: start,
+    [`${name}_mid`]: mid,
+    [`${name}_end`]: end,
+  });
+  const entries: Record<string, string> = {
+    main_bg: colors.background,
+    main_fg: colors.foreground,
+    title: colors.foreground,
+    hi_fg: ansi.blue,
+    selected_bg: colors.selection,
+    selected_fg: colors.selectionText,
+    inactive_fg: ansi.brightBlack,
+    graph_text: colors.foreground,
+    meter_bg: mixColors(colors.background, colors.foreground, 0.15),
+    proc_misc: ansi.cyan,
+    cpu_box: ansi.blue,
+    mem_box: ansi.green,
+    net_box: ansi.magenta,
+    proc_box: ansi.red,
+    div_line: ansi.brightBlack,
+    ...gradient('temp', ansi.blue, ansi.magenta, ansi.red),
+    ...gradient('cpu', ansi.green, ansi.yellow, ansi.red),
+    ...gradient('free', ansi.cyan, ansi.brightCyan, ansi.brightWhite),
+    ...gradient('cached', ansi.blue, ansi.brightBlue, ansi.brightCyan),
+    ...gradient('available', ansi.yellow, ansi.brightYellow, ansi.brightWhite),
+    ...gradient('used', ansi.green, ansi.yellow, ansi.red),
+    ...gradient('download', ansi.blue, ansi.cyan, ansi.brightCyan),
+    ...gradient('upload', ansi.magenta, ansi.red, ansi.brightRed),
+    ...gradient('process', ansi.green, ansi.yellow, ansi.red),
+  };
+
+  const lines = Object.entries(entries).map(([key, hex]) => `theme[${key}]="${hex}"`);
+  return `${header(theme)}\n${lines.join('\n')}\n`;
+}
+
+// GNU dircolors database. It has no TERM lines, so it applies on every terminal.
+function serializeDircolors(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const typeLines = FILE_TYPE_COLORS.map(({ keyword, rule }) => `${keyword} ${fileColorSgr(rule, colors)}`);
+  const extensionBlocks = FILE_EXTENSION_COLORS.map(({ name, rule, extensions }) => {
+    const sgr = fileColorSgr(rule, colors);
+    return `# ${name}\n${extensions.map(ext => `.${ext} ${sgr}`).join('\n')}`;
+  });
+
+  return `${header(theme)}# Load with: eval "$(dircolors -b <this file>)"
+
+${typeLines.join('\n')}
+
+${extensionBlocks.join('\n\n')}
+`;
+}
+
+// LS_COLORS and EZA_COLORS exports, for shells without dircolors (macOS) and for eza
+function serializeLsColors(theme: SerializableTheme): string {
+  return `${header(theme)}
+export LS_COLORS='${toLsColors(theme.colors)}'
+export EZA_COLORS='${toEzaColors(theme.colors)}'
+`;
+}
+
+// lsd colors.yaml, used with color.theme: custom
+function serializeLsd(theme: SerializableTheme): string {
+  return `${header(theme)}\n${yaml.stringify(toLsdColors(theme.colors))}`;
+}
+
+// Starship palette table, selected with the top-level palette key
+function serializeStarship(theme: SerializableTheme): string {
+  const entries = Object.entries(toStarshipPalette(theme.colors)).map(([name, hex]) => `${name} = "${hex}"`);
+  return `${header(theme)}
+palette = "${STARSHIP_PALETTE}"
+
+[palettes.${STARSHIP_PALETTE}]
+${entries.join('\n')}
+`;
+}
+
+// oh-my-posh config fragment with the palette, for segments using p:<name> colors
+function serializeOhMyPosh(theme: SerializableTheme): string {
+  return JSON.stringify({ palette: toOhMyPoshPalette(theme.colors) }, null, 2) + '\n';
+}
+
+// Powerlevel10k foreground overrides, sourced after ~/.p10k.zsh
+function serializeP10k(theme: SerializableTheme): string {
+  const lines = toP10kForegrounds(theme.colors).map(([param, hex]) => `typeset -g ${param}='${hex}'`);
+  return `${header(theme)}\n${lines.join('\n')}\n`;
+}
+
+// Base16/Base24 scheme YAML (tinted-theming scheme format)
+function serializeBaseScheme(theme: SerializableTheme, system: BaseSystem): string {
+  const scheme = {
+    system,
+    name: theme.name,
+    author: theme.author || 'ShellShade',
+    variant: brightness(theme.colors.background) < 128 ? 'dark' : 'light',
+    palette: colorsToPalette(theme.colors, system),
+  };
+
+  return yaml.stringify(scheme, { defaultStringType: 'QUOTE_DOUBLE', defaultKeyType: 'PLAIN' });
+}
+
+// Warp theme YAML
+function serializeWarp(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const warp = theme.settings?.warp || {};
+  const warpTheme: Record<string, unknown> = {
+    name: theme.name,
+    accent: warp.accent || colors.ansi.blue,
+    background: warp.backgroundGradient || colors.background,
+    foreground: colors.foreground,
+    details: warp.details || 'darker',
+  };
+
+  if (warp.backgroundImage) {
+    warpTheme.background_image = warp.backgroundImage;
+  }
+
+  warpTheme.terminal_colors = {
+    normal: {
+      black: colors.ansi.black,
+      red: colors.ansi.red,
+      green: colors.ansi.green,
+      yellow: colors.ansi.yellow,
+      blue: colors.ansi.blue,
+      magenta: colors.ansi.magenta,
+      cyan: colors.ansi.cyan,
+      white: colors.ansi.white,
+    },
+    bright: {
+      black: colors.ansi.brightBlack,
+      red: colors.ansi.brightRed,
+      green: colors.ansi.brightGreen,
+      yellow: colors.ansi.brightYellow,
+      blue: colors.ansi.brightBlue,
+      magenta: colors.ansi.brightMagenta,
+      cyan: colors.ansi.brightCyan,
+      white: colors.ansi.brightWhite,
+    },
+  };
+
+  return yaml.stringify(warpTheme);
+}
+
+// Gogh theme YAML (color_01 through color_16)
+function serializeGogh(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const gogh: Record<string, string> = {
+    name: theme.name,
+    author: theme.author || 'ShellShade',
+    variant: brightness(colors.background) < 128 ? 'dark' : 'light',
+  };
+
+  ANSI_COLOR_KEYS.forEach((key, index) => {
+    gogh[`color_${String(index + 1).padStart(2, '0')}`] = colors.ansi[key];
+  });
+  gogh.background = colors.background;
+  gogh.foreground = colors.foreground;
+  gogh.cursor = colors.cursor;
+
+  return '---\n' + yaml.stringify(gogh, { defaultStringType: 'QUOTE_SINGLE', defaultKeyType: 'PLAIN' });
+}
+
+// terminal.sexy JSON scheme
+function serializeTerminalSexy(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const scheme = {
+    name: theme.name,
+    author: theme.author || '',
+    color: ANSI_COLOR_KEYS.map(key => colors.ansi[key]),
+    foreground: colors.foreground,
+    background: colors.background,
+  };
+
+  return JSON.stringify(scheme, null, 2) + '\n';
+}
+
+// X resources block for xterm, urxvt and other Xt-based terminals
+function serializeXresources(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const lines = [
+    `*.foreground: ${colors.foreground}`,
+    `*.background: ${colors.background}`,
+    `*.cursorColor: ${colors.cursor}`,
+    `*.cursorColor2: ${colors.cursorText}`,
+    `*.highlightColor: ${colors.selection}`,
+    `*.highlightTextColor: ${colors.selectionText}`,
+    ...ANSI_COLOR_KEYS.map((key, index) => `*.color${index}: ${colors.ansi[key]}`),
+  ];
+
+  return `! ShellShade Theme: ${theme.name}
+! Generated by ShellShade
+
+${lines.join('\n')}
+`;
+}
+
+// Konsole colors are written as decimal "r,g,b"
+function hexToKonsoleRgb(hex: string): string {
+  const r = parseInt(hex.slice(1, 3), 16);
+  const g = parseInt(hex.slice(3, 5), 16);
+  const b = parseInt(hex.slice(5, 7), 16);
+  return `${r},${g},${b}`;
+}
+
+// Konsole .colorscheme (INI). Faint slots use the dim colors when the theme has them.
+function serializeKonsole(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const sections: string[] = [];
+  const section = (name: string, hex: string) => {
+    sections.push(`[${name}]\nColor=${hexToKonsoleRgb(hex)}\n`);
+  };
+
+  section('Background', colors.background);
+  section('BackgroundFaint', colors.background);
+  section('BackgroundIntense', colors.background);
+
+  ANSI_COLOR_KEYS.slice(0, 8).forEach((key, index) => {
+    const normalKey = key as NormalAnsiKey;
+    const brightKey = ANSI_COLOR_KEYS[index + 8];
+    section(`Color${index}`, colors.ansi[normalKey]);
+    section(`Color${index}Faint`, colors.dim?.[normalKey] || colors.ansi[normalKey]);
+    section(`Color${index}Intense`, colors.ansi[brightKey]);
+  });
+
+  section('Foreground', colors.foreground);
+  section('ForegroundFaint', colors.foreground);
+  section('ForegroundIntense', colors.foreground);
+
+  return `${sections.join('\n')}
+[General]
+Anchor=0.5,0.5
+Blur=false
+ColorRandomization=false
+Description=${theme.name}
+FillStyle=Tile
+Opacity=1
+Wallpaper=
+WallpaperFlipType=NoFlip
+WallpaperOpacity=1
+`;
+}
+
+// GNOME Terminal only accepts UUIDs as profile ids. Derive one from the name
+// (name-based, as in UUID v5) so exporting a theme again replaces its profile.
+function gnomeProfileId(name: string): string {
+  const hex = createHash('sha1').update(`shellshade:${name}`).digest('hex');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+}
+
+// GNOME Terminal profile as dconf dump output, for
+// `dconf load /org/gnome/terminal/legacy/profiles:/`
+function serializeGnomeTerminal(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const quote = (value: string) => `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  const palette = ANSI_COLOR_KEYS.map(key => quote(colors.ansi[key])).join(', ');
+
+  return `${header(theme)}
+[:${gnomeProfileId(theme.name)}]
+visible-name=${quote(theme.name)}
+use-theme-colors=false
+background-color=${quote(colors.background)}
+foreground-color=${quote(colors.foreground)}
+cursor-colors-set=true
+cursor-background-color=${quote(colors.cursor)}
+cursor-foreground-color=${quote(colors.cursorText)}
+highlight-colors-set=true
+highlight-background-color=${quote(colors.selection)}
+highlight-foreground-color=${quote(colors.selectionText)}
+palette=[${palette}]
+`;
+}
+
+// XFCE Terminal colorscheme (.theme), the same keys terminalrc uses under [Configuration]
+function serializeXfceTerminal(theme: SerializableTheme): string {
+  const { colors } = theme;
+
+  return `${header(theme)}
+[Scheme]
+Name=${theme.name}
+ColorForeground=${colors.foreground}
+ColorBackground=${colors.background}
+ColorCursorUseDefault=FALSE
+ColorCursor=${colors.cursor}
+ColorCursorForeground=${colors.cursorText}
+ColorSelectionUseDefault=FALSE
+ColorSelection=${colors.selectionText}
+ColorSelectionBackground=${colors.selection}
+ColorPalette=${ANSI_COLOR_KEYS.map(key => colors.ansi[key]).join(';')}
+`;
+}
+
+// Tilix color scheme JSON, for ~/.config/tilix/schemes
+function serializeTilix(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const scheme = {
+    name: theme.name,
+    comment: theme.description || '',
+    'use-theme-colors': false,
+    'foreground-color': colors.foreground,
+    'background-color': colors.background,
+    'use-cursor-color': true,
+    'cursor-background-color': colors.cursor,
+    'cursor-foreground-color': colors.cursorText,
+    'use-highlight-color': true,
+    'highlight-background-color': colors.selection,
+    'highlight-foreground-color': colors.selectionText,
+    palette: ANSI_COLOR_KEYS.map(key => colors.ansi[key]),
+  };
+
+  return JSON.stringify(scheme, null, 4) + '\n';
+}
+
+// Terminator profile under [profiles], in the ConfigObj syntax of ~/.config/terminator/config.
+// Terminator has no selection colors.
+function serializeTerminator(theme: SerializableTheme): string {
+  const { colors } = theme;
+  return `${header(theme)}
+[profiles]
+  [[${terminatorProfileName(theme)}]]
+    use_theme_colors = False
+    background_color = "${colors.background}"
+    foreground_color = "${colors.foreground}"
+    cursor_color_default = False
+    cursor_bg_color = "${colors.cursor}"
+    cursor_fg_color = "${colors.cursorText}"
+    palette = "${ANSI_COLOR_KEYS.map(key => colors.ansi[key]).join(':')}"
+`;
+}
+
+// Windows Terminal color scheme, ready to paste into settings.json "schemes"
+function serializeWindowsTerminal(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const { ansi } = colors;
+  const scheme = {
+    name: theme.name,
+    background: colors.background,
+    foreground: colors.foreground,
+    cursorColor: colors.cursor,
+    selectionBackground: colors.selection,
+    black: ansi.black,
+    red: ansi.red,
+    green: ansi.green,
+    yellow: ansi.yellow,
+    blue: ansi.blue,
+    purple: ansi.magenta,
+    cyan: ansi.cyan,
+    white: ansi.white,
+    brightBlack: ansi.brightBlack,
+    brightRed: ansi.brightRed,
+    brightGreen: ansi.brightGreen,
+    brightYellow: ansi.brightYellow,
+    brightBlue: ansi.brightBlue,
+    brightPurple: ansi.brightMagenta,
+    brightCyan: ansi.brightCyan,
+    brightWhite: ansi.brightWhite,
+  };
+
+  return JSON.stringify(scheme, null, 4) + '\n';
+}
+
+// ShellShade native JSON (same shape as builtin theme files)
+function serializeJson(theme: SerializableTheme): string {
+  const data = {
+    name: theme.name,
+    author: theme.author,
+    description: theme.description,
+    colors: theme.colors,
+    settings: theme.settings,
+  };
+
+  return JSON.stringify(data, null, 2) + '\n';
+}
+
+// CSS custom properties
+function serializeCss(theme: SerializableTheme): string {
+  const { colors } = theme;
+  const toKebab = (key: string) => key.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+
+  const variables: Array<[string, string]> = [
+    ['background', colors.background],
+    ['foreground', colors.foreground],
+    ['cursor', colors.cursor],
+    ['cursor-text', colors.cursorText],
+    ['selection', colors.selection],
+    ['selection-text', colors.selectionText],
+    ...ANSI_COLOR_KEYS.map((key): [string, string] => [toKebab(key), colors.ansi[key]]),
+  ];
+
+  const lines = variables.map(([name, value]) => `  --terminal-${name}: ${value};`);
+
+  return `/* ShellShade Theme: ${theme.name} */
+/* Generated by ShellShade */
+
+:root {
+${lines.join('\n')}
+}
+`;
+}
+
+// Serializer registry, keyed by format so every ThemeFormat must be covered
+const SERIALIZERS: Record<ThemeFormat, ThemeSerializer> = {
+  terminal: { format: 'terminal', label: 'Terminal.app', extension: 'terminal', serialize: serializeTerminalApp },
+  iterm2: { format: 'iterm2', label: 'iTerm2', extension: 'itermcolors', serialize: serializeItermColors },
+  'iterm2-json': { format: 'iterm2-json', label: 'iTerm2 Dynamic Profile', extension: 'json', serialize: serializeItermJson },
+  alacritty: { format: 'alacritty', label: 'Alacritty', extension: 'toml', serialize: serializeAlacritty },
+  kitty: { format: 'kitty', label: 'Kitty', extension: 'conf', serialize: serializeKitty },
+  wezterm: { format: 'wezterm', label: 'WezTerm', extension: 'toml', serialize: serializeWezterm },
+  ghostty: { format: 'ghostty', label: 'Ghostty', extension: 'ghostty', serialize: serializeGhostty },
+  foot: { format: 'foot', label: 'foot', extension: 'ini', serialize: serializeFoot },
+  hyper: { format: 'hyper', label: 'Hyper', extension: 'js', serialize: serializeHyper },
+  tabby: { format: 'tabby', label: 'Tabby', extension: 'yaml', serialize: serializeTabby },
+  vscode: { format: 'vscode', label: 'VS Code Terminal Colors', extension: 'json', serialize: serializeVscode },
+  tmux: { format: 'tmux', label: 'tmux', extension: 'conf', serialize: serializeTmux },
+  zellij: { format: 'zellij', label: 'Zellij', extension: 'kdl', serialize: serializeZellij },
+  screen: { format: 'screen', label: 'GNU screen', extension: 'screenrc', serialize: serializeScreen },
+  neovim: { format: 'neovim', label: 'Neovim Colorscheme', extension: 'lua', serialize: serializeNeovim },
+  vim: { format: 'vim', label: 'Vim Colorscheme', extension: 'vim', serialize: serializeVim },
+  helix: { format: 'helix', label: 'Helix Theme', extension: 'toml', serialize: serializeHelix },
+  fzf: { format: 'fzf', label: 'fzf Colors', extension: 'sh', serialize: serializeFzf },
+  bat: { format: 'bat', label: 'bat Theme', extension: 'tmTheme', serialize: serializeBat },
+  delta: { format: 'delta', label: 'delta Feature', extension: 'gitconfig', serialize: serializeDelta },
+  lazygit: { format: 'lazygit', label: 'lazygit Theme', extension: 'yml', serialize: serializeLazygit },
+  btop: { format: 'btop', label: 'btop Theme', extension: 'theme', serialize: serializeBtop },
+  dircolors: { format: 'dircolors', label: 'dircolors Database', extension: 'dircolors', serialize: serializeDircolors },
+  'ls-colors': { format: 'ls-colors', label: 'LS_COLORS / EZA_COLORS', extension: 'sh', serialize: serializeLsColors },
+  lsd: { format: 'lsd', label: 'lsd Colors', extension: 'yaml', serialize: serializeLsd },
+  starship: { format: 'starship', label: 'Starship Palette', extension: 'toml', serialize: serializeStarship },
+  'oh-my-posh': { format: 'oh-my-posh', label: 'oh-my-posh Palette', extension: 'omp.json', serialize: serializeOhMyPosh },
+  p10k: { format: 'p10k', label: 'Powerlevel10k Colors', extension: 'zsh', serialize: serializeP10k },
+  base16: { format: 'base16', label: 'Base16', extension: 'yaml', serialize: theme => serializeBaseScheme(theme, 'base16') },
+  base24: { format: 'base24', label: 'Base24', extension: 'yaml', serialize: theme => serializeBaseScheme(theme, 'base24') },
+  warp: { format: 'warp', label: 'Warp', extension: 'yaml', serialize: serializeWarp },
+  gogh: { format: 'gogh', label: 'Gogh', extension: 'yml', serialize: serializeGogh },
+  'terminal-sexy': { format: 'terminal-sexy', label: 'terminal.sexy', extension: 'json', serialize: serializeTerminalSexy },
+  konsole: { format: 'konsole', label: 'Konsole', extension: 'colorscheme', serialize: serializeKonsole },
+  'gnome-terminal': { format: 'gnome-terminal', label: 'GNOME Terminal (dconf)', extension: 'dconf', serialize: serializeGnomeTerminal },
+  'xfce4-terminal': { format: 'xfce4-terminal', label: 'XFCE Terminal', extension: 'theme', serialize: serializeXfceTerminal },
+  tilix: { format: 'tilix', label: 'Tilix', extension: 'json', serialize: serializeTilix },
+  terminator: { format: 'terminator', label: 'Terminator Profile', extension: 'config', serialize: serializeTerminator },
+  xresources: { format: 'xresources', label: 'Xresources', extension: 'Xresources', serialize: serializeXresources },
+  'windows-terminal': { format: 'windows-terminal', label: 'Windows Terminal Scheme', extension: 'json', serialize: serializeWindowsTerminal },
+  json: { format: 'json', label: 'ShellShade JSON', extension: 'json', serialize: serializeJson },
+  css: { format: 'css', label: 'CSS Variables', extension: 'css', serialize: serializeCss },
+};
+
+/**
+ * Look up the serializer for an export format
+ */
+export function getSerializer(format: ThemeFormat): ThemeSerializer {
+  const serializer = SERIALIZERS[format];
+  if (!serializer) {
+    throw new Error(`Unsupported export format: ${format}`);
+  }
+  return serializer;
+}
+
+/**
+ * All registered serializers, in ThemeFormat order
+ */
+export function listSerializers(): ThemeSerializer[] {
+  return Object.values(SERIALIZERS);
+}
+
+/**
+ * Serialize a theme to the given export format
+ */
+export function serializeTheme(theme: SerializableTheme, format: ThemeFormat, options?: SerializeOptions): string {
+  return getSerializer(format).serialize(theme, options);
+}
+
+/**
+ * Default file name for an exported theme
+ */
+export function getExportFileName(theme: SerializableTheme, format: ThemeFormat): string {
+  return `${slugify(theme.name) || 'theme'}.${getSerializer(format).extension}`;
+}
@@ -0,0 +1,33 @@
+import { ANSI_COLOR_KEYS } from '../types/theme';
+import type { ThemeColors } from '../types/theme';
+
+/**
+ * A Tabby terminal color scheme, as stored under `terminal.colorScheme` and
+ * `terminal.customColorSchemes` in config.yaml
+ */
+export interface TabbyColorScheme {
+  name: string;
+  foreground: string;
+  background: string;
+  cursor: string;
+  cursorForeground?: string;
+  selection?: string;
+  selectionForeground?: string;
+  colors: string[];
+}
+
+/**
+ * Build a Tabby color scheme from terminal colors
+ */
+export function toTabbyColorScheme(name: string, colors: ThemeColors): TabbyColorScheme {
+  return {
+    name,
+    foreground: colors.foreground,
+    background: colors.background,
+    cursor: colors.cursor,
+    cursorForeground: colors.cursorText,
+    selection: colors.selection,
+    selectionForeground: colors.selectionText,
+    colors: ANSI_COLOR_KEYS.map(key => colors.ansi[key]),
+  };
+}
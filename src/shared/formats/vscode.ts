@@ -0,0 +1,28 @@
+import { ANSI_COLOR_KEYS } from '../types/theme';
+import type { ThemeColors } from '../types/theme';
+
+/**
+ * VS Code themes its integrated terminal through `workbench.colorCustomizations`
+ * in the user settings.json, optionally scoped to a workbench theme with a
+ * "[Theme Name]" key.
+ */
+
+export const VSCODE_COLOR_CUSTOMIZATIONS = 'workbench.colorCustomizations';
+
+/**
+ * The terminal color customizations for a theme
+ */
+export function toVscodeTerminalColors(colors: ThemeColors): Record<string, string> {
+  const entries: Record<string, string> = {
+    'terminal.background': colors.background,
+    'terminal.foreground': colors.foreground,
+    'terminalCursor.foreground': colors.cursor,
+    'terminalCursor.background': colors.cursorText,
+    'terminal.selectionBackground': colors.selection,
+    'terminal.selectionForeground': colors.selectionText,
+  };
+  for (const key of ANSI_COLOR_KEYS) {
+    entries[`terminal.ansi${key[0].toUpperCase()}${key.slice(1)}`] = colors.ansi[key];
+  }
+  return entries;
+}
@@ -0,0 +1,19 @@
+import type { WarpMetadata } from '../types/theme';
+
+/**
+ * Warp metadata is stored as one JSON value under the "warp" setting key
+ */
+export const WARP_SETTING_KEY = 'warp';
+
+/**
+ * Decode a stored Warp metadata value, ignoring anything malformed
+ */
+export function decodeWarpMetadata(value: string | undefined): WarpMetadata | undefined {
+  if (!value) return undefined;
+  try {
+    const data = JSON.parse(value);
+    return data && typeof data === 'object' && !Array.isArray(data) ? data : undefined;
+  } catch {
+    return undefined;
+  }
+}
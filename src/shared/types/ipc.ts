@@ -1,4 +1,4 @@
-import type { Theme, ThemeSummary, ThemeFormat, Tag } from './theme';
+import type { Theme, ThemeSummary, ThemeColors, ThemeFormat, Tag } from './theme';
 
 /**
  * Result of theme installation
@@ -19,6 +19,40 @@ export interface InstalledTheme {
   path: string;
 }
 
+/**
+ * Import format detected for a file, with the parser's confidence (0-1)
+ */
+export interface DetectedFormat {
+  format: ThemeFormat;
+  label: string;
+  confidence: number;
+}
+
+/**
+ * A color scheme found in Windows Terminal's settings.json
+ */
+export interface WindowsTerminalSchemeInfo {
+  name: string;
+  colors: ThemeColors;
+}
+
+/**
+ * A Konsole colorscheme found in the user or system konsole folder
+ */
+export interface KonsoleSchemeInfo {
+  name: string;
+  path: string;
+  colors: ThemeColors;
+}
+
+/**
+ * A GNOME Terminal profile read from a dconf dump
+ */
+export interface GnomeTerminalProfileInfo {
+  name: string;
+  colors: ThemeColors;
+}
+
 /**
  * IPC channel names
  */
@@ -34,8 +68,16 @@ export const IPC_CHANNELS = {
 
   // File operations
   FILES_IMPORT: 'files:import',
+  FILES_CHOOSE_IMPORT: 'files:chooseImport',
   FILES_EXPORT: 'files:export',
   FILES_DRAG_IMPORT: 'files:dragImport',
+  FILES_DETECT_FORMAT: 'files:detectFormat',
+  FILES_LIST_WINDOWS_TERMINAL_SCHEMES: 'files:listWindowsTerminalSchemes',
+  FILES_IMPORT_WINDOWS_TERMINAL_SCHEMES: 'files:importWindowsTerminalSchemes',
+  FILES_LIST_KONSOLE_SCHEMES: 'files:listKonsoleSchemes',
+  FILES_IMPORT_KONSOLE_SCHEMES: 'files:importKonsoleSchemes',
+  FILES_LIST_GNOME_TERMINAL_PROFILES: 'files:listGnomeTerminalProfiles',
+  FILES_IMPORT_GNOME_TERMINAL_PROFILES: 'files:importGnomeTerminalProfiles',
 
   // Installation
   INSTALL_TERMINAL_APP: 'install:terminalApp',
@@ -43,6 +85,7 @@ export const IPC_CHANNELS = {
   INSTALL_WINDOWS_TERMINAL: 'install:windowsTerminal',
   INSTALL_ALACRITTY: 'install:alacritty',
   INSTALL_KITTY: 'install:kitty',
+  INSTALL_GHOSTTY: 'install:ghostty',
   INSTALL_DETECT: 'install:detect',
   SYSTEM_GET_PLATFORM: 'system:getPlatform',
 
@@ -74,9 +117,17 @@ export interface IpcApi {
   };
 
   files: {
-    import(path?: string): Promise<Theme>;
+    import(path?: string, format?: ThemeFormat): Promise<Theme>;
+    chooseImportFile(): Promise<string | null>;
     export(themeId: string, format: ThemeFormat, path?: string): Promise<string>;
-    dragImport(filePath: string): Promise<Theme>;
+    dragImport(filePath: string, format?: ThemeFormat): Promise<Theme>;
+    detectFormat(filePath: string): Promise<DetectedFormat[]>;
+    listWindowsTerminalSchemes(): Promise<WindowsTerminalSchemeInfo[]>;
+    importWindowsTerminalSchemes(names?: string[]): Promise<Theme[]>;
+    listKonsoleSchemes(): Promise<KonsoleSchemeInfo[]>;
+    importKonsoleSchemes(paths?: string[]): Promise<Theme[]>;
+    listGnomeTerminalProfiles(dumpPath?: string): Promise<GnomeTerminalProfileInfo[]>;
+    importGnomeTerminalProfiles(names?: string[], dumpPath?: string): Promise<Theme[]>;
   };
 
   install: {
@@ -85,6 +136,7 @@ export interface IpcApi {
     toWindowsTerminal(themeId: string): Promise<InstallResult>;
     toAlacritty(themeId: string): Promise<InstallResult>;
     toKitty(themeId: string): Promise<InstallResult>;
+    toGhostty(themeId: string): Promise<InstallResult>;
     setTerminalDefault(themeId: string): Promise<InstallResult>;
     detectInstalled(): Promise<InstalledTheme[]>;
   };
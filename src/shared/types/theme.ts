@@ -5,10 +5,43 @@ export type ThemeFormat =
   | 'terminal' // macOS Terminal.app
   | 'iterm2' // iTerm2 .itermcolors
   | 'iterm2-json' // iTerm2 JSON profile
-  | 'alacritty' // Alacritty YAML
+  | 'alacritty' // Alacritty TOML
   | 'kitty' // Kitty conf
+  | 'wezterm' // WezTerm color scheme TOML
+  | 'ghostty' // Ghostty theme file
+  | 'foot' // foot [colors] include file
+  | 'hyper' // Hyper .hyper.js config
+  | 'tabby' // Tabby config.yaml color scheme
+  | 'vscode' // VS Code terminal colorCustomizations
+  | 'tmux' // tmux status, border and message styles
+  | 'zellij' // Zellij KDL theme
+  | 'screen' // GNU screen hardstatus and renditions
+  | 'neovim' // Neovim Lua colorscheme
+  | 'vim' // Vim colorscheme
+  | 'helix' // Helix theme TOML
+  | 'fzf' // FZF_DEFAULT_OPTS --color snippet
+  | 'bat' // bat TextMate theme
+  | 'delta' // delta gitconfig feature
+  | 'lazygit' // lazygit gui.theme
+  | 'btop' // btop theme
+  | 'dircolors' // GNU dircolors database
+  | 'ls-colors' // LS_COLORS and EZA_COLORS exports
+  | 'lsd' // lsd colors.yaml
+  | 'starship' // Starship palette
+  | 'oh-my-posh' // oh-my-posh palette
+  | 'p10k' // Powerlevel10k foreground overrides
   | 'base16' // Base16 YAML
+  | 'base24' // Base24 YAML
   | 'warp' // Warp YAML
+  | 'gogh' // Gogh theme YAML
+  | 'terminal-sexy' // terminal.sexy JSON
+  | 'konsole' // Konsole .colorscheme
+  | 'gnome-terminal' // GNOME Terminal dconf dump
+  | 'xfce4-terminal' // XFCE Terminal .theme colorscheme
+  | 'tilix' // Tilix color scheme JSON
+  | 'terminator' // Terminator config profile
+  | 'xresources' // X resources (xterm, urxvt)
+  | 'windows-terminal' // Windows Terminal scheme JSON
   | 'json' // Universal JSON
   | 'css'; // CSS variables
 
@@ -34,6 +67,19 @@ export interface AnsiColors {
   brightWhite: string;
 }
 
+/**
+ * ANSI color keys in palette order (color0 through color15)
+ */
+export const ANSI_COLOR_KEYS: readonly (keyof AnsiColors)[] = [
+  'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white',
+  'brightBlack', 'brightRed', 'brightGreen', 'brightYellow', 'brightBlue', 'brightMagenta', 'brightCyan', 'brightWhite',
+];
+
+/**
+ * The eight normal (non-bright) ANSI color keys
+ */
+export type NormalAnsiKey = 'black' | 'red' | 'green' | 'yellow' | 'blue' | 'magenta' | 'cyan' | 'white';
+
 /**
  * Complete theme color configuration
  */
@@ -53,6 +99,49 @@ export interface ThemeColors {
   link?: string;
   badge?: string;
   tab?: string;
+
+  // Extended (optional, Alacritty-style search and hint highlights)
+  searchMatch?: string;
+  searchMatchText?: string;
+  searchFocused?: string;
+  searchFocusedText?: string;
+  hintStart?: string;
+  hintStartText?: string;
+  hintEnd?: string;
+  hintEndText?: string;
+
+  // Dim (faint) variants of the eight normal colors
+  dim?: Partial<Pick<AnsiColors, NormalAnsiKey>>;
+
+  // 256-color palette overrides, keyed by index (16-255)
+  indexed?: Record<number, string>;
+}
+
+/**
+ * Optional single-value colors of ThemeColors, in storage order
+ */
+export const EXTENDED_COLOR_KEYS = [
+  'link', 'badge', 'tab',
+  'searchMatch', 'searchMatchText', 'searchFocused', 'searchFocusedText',
+  'hintStart', 'hintStartText', 'hintEnd', 'hintEndText',
+] as const;
+
+export type ExtendedColorKey = (typeof EXTENDED_COLOR_KEYS)[number];
+
+/**
+ * Two-stop gradient, as used by Warp for accents and backgrounds
+ */
+export type WarpGradient = { top: string; bottom: string } | { left: string; right: string };
+
+/**
+ * Warp-only theme fields, kept so they survive an import/export round-trip
+ */
+export interface WarpMetadata {
+  accent?: string | WarpGradient;
+  // The solid background is stored in ThemeColors; this keeps the gradient
+  backgroundGradient?: WarpGradient;
+  backgroundImage?: { path: string; opacity?: number };
+  details?: 'darker' | 'lighter';
 }
 
 /**
@@ -64,6 +153,7 @@ export interface ThemeSettings {
   lineHeight?: number;
   cursorStyle?: 'block' | 'beam' | 'underline';
   cursorBlink?: boolean;
+  warp?: WarpMetadata;
 }
 
 /**
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { findTerminal } from '../src/cli/terminals';
+
+describe('apply -t lookup', () => {
+  it.each([
+    ['vim', 'vim'],
+    ['neovim', 'neovim'],
+    ['helix', 'helix'],
+    ['VIM', 'vim'],
+  ])('-t %s applies to %s', (arg, expected) => {
+    expect(findTerminal(arg)).toBe(expected);
+  });
+
+  it('falls back to display names when no id matches exactly', () => {
+    expect(findTerminal('nvim')).toBeUndefined();
+    expect(findTerminal('gnome')).toBe('gnome-terminal');
+    expect(findTerminal('Windows Terminal')).toBe('windows-terminal');
+  });
+
+  it('returns nothing for an unknown terminal', () => {
+    expect(findTerminal('notaterminal')).toBeUndefined();
+  });
+});
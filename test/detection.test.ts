@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { detectFormats, readGnomeTerminalProfiles } from '../src/main/services/parsers';
+import { getExportFileName, serializeTheme } from '../src/shared/formats/serializers';
+
+// Formats whose files look alike: INI-style sections with color keys
+const TERMINATOR_CONFIG = `[global_config]
+  title_transmit_bg_color = "#d30102"
+[keybindings]
+[profiles]
+  [[default]]
+    background_color = "#101820"
+    foreground_color = "#e0e4e8"
+    palette = "#1a1b1c:#c03030:#30a040:#c0a030:#3060c0:#a040b0:#30a0b0:#c8c8c0:#505458:#f05050:#50d060:#f0d050:#5080f0:#d060e0:#50d0e0:#f4f4f0"
+[layouts]
+  [[default]]
+    [[[window0]]]
+      type = Window
+      parent = ""
+[plugins]
+`;
+
+const GNOME_DUMP = `[:b1dcc9dd-5262-4d8d-a863-c897e6d979b9]
+visible-name='Dump'
+background-color='rgb(16,24,32)'
+foreground-color='rgb(224,228,232)'
+palette=['#1a1b1c', '#c03030', '#30a040', '#c0a030', '#3060c0', '#a040b0', '#30a0b0', '#c8c8c0', '#505458', '#f05050', '#50d060', '#f0d050', '#5080f0', '#d060e0', '#50d0e0', '#f4f4f0']
+`;
+
+function best(content: string, filename: string) {
+  return detectFormats(content, filename)[0]?.format;
+}
+
+describe('detectFormats', () => {
+  it('detects ~/.config/terminator/config as Terminator, not GNOME Terminal', () => {
+    expect(best(TERMINATOR_CONFIG, 'config')).toBe('terminator');
+    expect(detectFormats(TERMINATOR_CONFIG, 'config').map(result => result.format)).not.toContain('gnome-terminal');
+  });
+
+  it('detects a dconf dump by its profile sections', () => {
+    expect(best(GNOME_DUMP, 'profiles.dconf')).toBe('gnome-terminal');
+    expect(best(GNOME_DUMP, 'profiles.txt')).toBe('gnome-terminal');
+  });
+
+  it('detects a dump of /org/gnome/terminal/ by its legacy/profiles:/ sections', () => {
+    const fullDump = `[legacy/profiles:]\nlist=['b1dcc9dd-5262-4d8d-a863-c897e6d979b9']\n\n${GNOME_DUMP.replace('[:', '[legacy/profiles:/:')}`;
+    expect(best(fullDump, 'terminal.ini')).toBe('gnome-terminal');
+  });
+
+  it('needs a profile section before calling an INI file a dconf dump', () => {
+    const ini = GNOME_DUMP.replace(/^\[.*\]$/m, '[colors]');
+    expect(detectFormats(ini, 'colors.ini').map(result => result.format)).not.toContain('gnome-terminal');
+  });
+
+  it('does not take an exported starship.toml for a dconf dump', () => {
+    // `palette = "shellshade"` plus a [palettes.shellshade] table once passed for one
+    const [theme] = readGnomeTerminalProfiles(GNOME_DUMP);
+    const formats = detectFormats(serializeTheme(theme, 'starship'), getExportFileName(theme, 'starship'));
+    expect(formats.map(result => result.format)).not.toContain('gnome-terminal');
+  });
+});
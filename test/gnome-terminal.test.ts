@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { readGnomeTerminalProfiles } from '../src/main/services/parsers';
+
+// A `dconf dump /org/gnome/terminal/legacy/profiles:/` profile; dconf leaves
+// out keys still at their default, so the "-colors-set" flags may be missing
+function dump(extra: string): string {
+  return [
+    '[:b1dcc9dd-5262-4d8d-a863-c897e6d979b9]',
+    "visible-name='Dump'",
+    "background-color='rgb(16,24,32)'",
+    "foreground-color='rgb(224,228,232)'",
+    "cursor-background-color='#f0c040'",
+    "cursor-foreground-color='#102030'",
+    "highlight-background-color='#304050'",
+    "highlight-foreground-color='#f8f0e8'",
+    extra,
+  ].join('\n');
+}
+
+describe('GNOME Terminal dconf profiles', () => {
+  it('ignores cursor and highlight colors when their flags are left at the default', () => {
+    const [profile] = readGnomeTerminalProfiles(dump(''));
+
+    expect(profile.colors.cursor).toBe('#e0e4e8');
+    expect(profile.colors.cursorText).toBe('#101820');
+    expect(profile.colors.selection).toBe('#e0e4e8');
+    expect(profile.colors.selectionText).toBe('#101820');
+  });
+
+  it('uses cursor and highlight colors when their flags are on', () => {
+    const [profile] = readGnomeTerminalProfiles(dump('cursor-colors-set=true\nhighlight-colors-set=true'));
+
+    expect(profile.colors.cursor).toBe('#f0c040');
+    expect(profile.colors.cursorText).toBe('#102030');
+    expect(profile.colors.selection).toBe('#304050');
+    expect(profile.colors.selectionText).toBe('#f8f0e8');
+  });
+});
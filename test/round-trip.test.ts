@@ -0,0 +1,128 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { detectFormats, listParsers, parseThemeFile } from '../src/main/services/parsers';
+import { getExportFileName, listSerializers, serializeTheme } from '../src/shared/formats/serializers';
+import type { SerializableTheme } from '../src/shared/formats/serializers';
+import type { ThemeColors, ThemeFormat } from '../src/shared/types/theme';
+
+// Every color distinct, so a swapped slot shows up as a mismatch
+const theme: SerializableTheme = {
+  name: 'Round Trip',
+  colors: {
+    background: '#101820',
+    foreground: '#e0e4e8',
+    cursor: '#f0c040',
+    cursorText: '#102030',
+    selection: '#304050',
+    selectionText: '#f8f0e8',
+    ansi: {
+      black: '#1a1b1c',
+      red: '#c03030',
+      green: '#30a040',
+      yellow: '#c0a030',
+      blue: '#3060c0',
+      magenta: '#a040b0',
+      cyan: '#30a0b0',
+      white: '#c8c8c0',
+      brightBlack: '#505458',
+      brightRed: '#f05050',
+      brightGreen: '#50d060',
+      brightYellow: '#f0d050',
+      brightBlue: '#5080f0',
+      brightMagenta: '#d060e0',
+      brightCyan: '#50d0e0',
+      brightWhite: '#f4f4f0',
+    },
+  },
+};
+
+// Slots a format has no place for; the parser fills them from other colors
+const UNSUPPORTED_SLOTS: Record<string, string[]> = {
+  'terminal-sexy': ['cursor', 'selection'],
+  warp: ['cursor', 'selection'],
+  konsole: ['cursor', 'selection'],
+  gogh: ['selection'],
+  terminator: ['selection'],
+};
+const CORE_SLOTS = ['background', 'foreground', 'cursor', 'cursorText', 'selection', 'selectionText'] as const;
+
+// Formats that describe a palette rather than terminal colors: only check the parse is stable
+const LOSSY = new Set(['base16', 'base24']);
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shellshade-round-trip-'));
+afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+function lower(colors: ThemeColors): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(colors).toLowerCase());
+}
+
+function roundTrip(format: ThemeFormat, input: SerializableTheme) {
+  const filePath = path.join(tmpDir, getExportFileName(input, format));
+  fs.writeFileSync(filePath, serializeTheme(input, format));
+  return { filePath, parsed: parseThemeFile(filePath) };
+}
+
+const importable = listParsers().map(parser => parser.format);
+
+describe('parse(serialize(theme))', () => {
+  it.each(importable)('%s keeps the theme colors', format => {
+    const { parsed } = roundTrip(format, theme);
+    expect(parsed.format).toBe(format);
+
+    if (LOSSY.has(format)) {
+      const again = roundTrip(format, { name: theme.name, colors: parsed.colors }).parsed;
+      expect(lower(again.colors)).toEqual(lower(parsed.colors));
+      return;
+    }
+
+    const expected = lower(theme.colors) as unknown as ThemeColors;
+    const actual = lower(parsed.colors) as unknown as ThemeColors;
+    expect(actual.ansi).toEqual(expected.ansi);
+    for (const slot of CORE_SLOTS) {
+      if (UNSUPPORTED_SLOTS[format]?.includes(slot)) continue;
+      expect(actual[slot], slot).toBe(expected[slot]);
+    }
+  });
+
+  it.each(importable)('%s export is detected as its own format', format => {
+    const filePath = path.join(tmpDir, getExportFileName(theme, format));
+    fs.writeFileSync(filePath, serializeTheme(theme, format));
+    const [best] = detectFormats(fs.readFileSync(filePath, 'utf-8'), path.basename(filePath));
+    expect(best?.format).toBe(format);
+  });
+});
+
+describe('names the target format restricts', () => {
+  it.each([
+    ['Cat "Mocha"', "Cat 'Mocha'"],
+    ['[Dark] Theme', 'Dark Theme'],
+  ])('terminator keeps profile %s readable as %s', (name, expected) => {
+    const { parsed } = roundTrip('terminator', { ...theme, name });
+    expect(parsed.name).toBe(expected);
+    expect(parsed.colors.background).toBe(theme.colors.background);
+  });
+});
+
+// Generated configs for targets ShellShade writes but cannot import
+const exportOnly = listSerializers().map(serializer => serializer.format).filter(format => !importable.includes(format));
+
+// Formats that write colors in another notation than hex, with what to look for instead
+const BLUE_SGR = '38;2;48;96;192';
+const NON_HEX_OUTPUT: Partial<Record<ThemeFormat, string[]>> = {
+  screen: ['hardstatus', 'rendition'],
+  fzf: [`bg:${theme.colors.background}`, `hl:${theme.colors.ansi.blue}`],
+  dircolors: [`DIR 01;${BLUE_SGR}`],
+  'ls-colors': [`LS_COLORS='di=01;${BLUE_SGR}`, `EZA_COLORS='di=01;${BLUE_SGR}`],
+};
+
+describe('export-only formats', () => {
+  it.each(exportOnly)('%s output carries the theme palette', format => {
+    const output = serializeTheme(theme, format);
+    const expected = NON_HEX_OUTPUT[format] ?? [theme.colors.ansi.red, theme.colors.ansi.blue];
+    for (const text of expected) {
+      expect(output.toLowerCase()).toContain(text.toLowerCase());
+    }
+  });
+});
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from 'vitest';
+import { detectThemeFileFormats, parseTerminalApp } from '../src/main/services/parsers';
+import { isBinaryPlist } from '../src/shared/formats/plist';
+import { serializeTheme } from '../src/shared/formats/serializers';
+import type { SerializableTheme } from '../src/shared/formats/serializers';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+
+describe('binary .terminal profiles', () => {
+  // Saved by plistlib in binary form, with each color a binary NSKeyedArchiver
+  // archive, the way Terminal.app writes exported profiles
+  const fixture = path.join(FIXTURES, 'binary-profile.terminal');
+
+  it('is a binary plist detected as Terminal.app', () => {
+    expect(isBinaryPlist(fs.readFileSync(fixture))).toBe(true);
+    expect(detectThemeFileFormats(fixture)[0]?.format).toBe('terminal');
+  });
+
+  it('decodes NSColor values in each color space', () => {
+    const parsed = parseTerminalApp('', fixture);
+
+    expect(parsed.name).toBe('Binary Fixture');
+    // NSDeviceRGB
+    expect(parsed.colors.background).toBe('#1e1e2e');
+    // NSCalibratedWhite
+    expect(parsed.colors.foreground).toBe('#cccccc');
+    // NSCalibratedRGB
+    expect(parsed.colors.ansi.red).toBe('#f38ba8');
+    // NSComponents
+    expect(parsed.colors.ansi.blue).toBe('#89b4fa');
+    // Named color, resolved through its nested NSColor
+    expect(parsed.colors.cursor).toBe('#f5e0dc');
+    // Unset slots keep Terminal.app's defaults
+    expect(parsed.colors.ansi.green).toBe('#00a600');
+  });
+
+  it('decodes the NSFont and cursor settings', () => {
+    expect(parseTerminalApp('', fixture).settings).toEqual({
+      fontFamily: 'Menlo',
+      fontSize: 12,
+      lineHeight: 1.1,
+      cursorStyle: 'underline',
+      cursorBlink: true,
+    });
+  });
+});
+
+describe('parseTerminalApp(serializeTerminalApp(theme))', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'shellshade-terminal-'));
+  afterAll(() => fs.rmSync(tmpDir, { recursive: true, force: true }));
+
+  const theme: SerializableTheme = {
+    name: 'Terminal Round Trip',
+    sourceFormat: 'terminal',
+    colors: {
+      background: '#101820',
+      foreground: '#e0e4e8',
+      cursor: '#f0c040',
+      cursorText: '#101820',
+      selection: '#304050',
+      selectionText: '#e0e4e8',
+      ansi: {
+        black: '#1a1b1c', red: '#c03030', green: '#30a040', yellow: '#c0a030',
+        blue: '#3060c0', magenta: '#a040b0', cyan: '#30a0b0', white: '#c8c8c0',
+        brightBlack: '#505458', brightRed: '#f05050', brightGreen: '#50d060', brightYellow: '#f0d050',
+        brightBlue: '#5080f0', brightMagenta: '#d060e0', brightCyan: '#50d0e0', brightWhite: '#f4f4f0',
+      },
+    },
+    settings: {
+      fontFamily: 'JetBrains Mono',
+      fontSize: 14,
+      lineHeight: 1.2,
+      cursorStyle: 'beam',
+      cursorBlink: false,
+    },
+  };
+
+  function roundTrip(input: SerializableTheme) {
+    const filePath = path.join(tmpDir, `${input.name}.terminal`);
+    fs.writeFileSync(filePath, serializeTheme(input, 'terminal'));
+    return parseTerminalApp('', filePath);
+  }
+
+  it('keeps the name, colors and settings', () => {
+    const parsed = roundTrip(theme);
+
+    expect(parsed.name).toBe(theme.name);
+    expect(parsed.colors).toEqual(theme.colors);
+    expect(parsed.settings).toEqual({ ...theme.settings, fontFamily: 'JetBrainsMono' });
+  });
+
+  it('leaves out settings the theme does not set', () => {
+    expect(roundTrip({ ...theme, settings: {} }).settings).toEqual({});
+  });
+
+  it('keeps the font and line spacing of themes from other sources out of the profile', () => {
+    // lineHeight is a CSS-style preview value there, not FontHeightSpacing
+    const profile = serializeTheme({ ...theme, sourceFormat: 'alacritty' }, 'terminal');
+    expect(profile).not.toContain('<key>Font</key>');
+    expect(profile).not.toContain('FontHeightSpacing');
+    expect(roundTrip({ ...theme, sourceFormat: undefined }).settings).toEqual({ cursorStyle: 'beam', cursorBlink: false });
+  });
+});
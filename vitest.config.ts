@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  // src/shared/types has stale compiled .js next to the sources; resolve the .ts first
+  resolve: {
+    extensions: ['.ts', '.tsx', '.js', '.json'],
+  },
+  test: {
+    include: ['test/**/*.test.ts'],
+  },
+});